@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { buildHar } from '@/lib/network-capture';
+import type { ScrapedData } from '@/lib/scraper';
+
+/**
+ * Exporta as requisições capturadas no scraping da página principal em formato HAR.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ analysisId: string }> }
+) {
+    const { analysisId } = await params;
+
+    try {
+        const analysis = await prisma.analysis.findUnique({
+            where: { id: analysisId },
+        });
+
+        if (!analysis || !analysis.scrapedData) {
+            return NextResponse.json(
+                { status: 'error', message: 'Análise não encontrada ou ainda em processamento.' },
+                { status: 404 }
+            );
+        }
+
+        const scrapedData: ScrapedData = JSON.parse(analysis.scrapedData);
+
+        if (!scrapedData.network) {
+            return NextResponse.json(
+                { status: 'error', message: 'Esta análise não possui dados de rede.' },
+                { status: 404 }
+            );
+        }
+
+        const har = buildHar(scrapedData.network, scrapedData.url, scrapedData.title);
+
+        return new NextResponse(JSON.stringify(har, null, 2), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Disposition': `attachment; filename="diagnostico-${analysisId}.har"`,
+            },
+        });
+
+    } catch (error) {
+        console.error(`💥 Erro ao exportar HAR da análise ${analysisId}:`, error);
+        return NextResponse.json(
+            { status: 'error', message: 'Erro interno ao exportar HAR.' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,8 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-
-// Tempo estimado total para o processo
-const ESTIMATED_TOTAL_TIME = 90;
+import { ESTIMATED_TOTAL_TIME } from '@/lib/analysis-config';
 
 export async function GET(
     request: Request,
@@ -24,7 +22,7 @@ export async function GET(
 
         // Cálculo do Progresso
         let completedSteps = 0;
-        const totalSteps = 4;
+        const totalSteps = 6;
         let currentStepMessage = 'Iniciando...';
 
         if (analysis.scrapedData) {
@@ -35,6 +33,16 @@ export async function GET(
         }
 
         if (analysis.technologiesData) {
+            completedSteps++;
+            currentStepMessage = 'Auditando SEO técnico...';
+        }
+
+        if (analysis.seoData) {
+            completedSteps++;
+            currentStepMessage = 'Verificando links...';
+        }
+
+        if (analysis.linksData) {
             completedSteps++;
             currentStepMessage = 'Analisando performance...';
         }
@@ -78,7 +86,10 @@ export async function GET(
             data: {
                 scrapedData: analysis.scrapedData ? JSON.parse(analysis.scrapedData) : null,
                 technologiesData: analysis.technologiesData ? JSON.parse(analysis.technologiesData) : null,
+                seoData: analysis.seoData ? JSON.parse(analysis.seoData) : null,
+                linksData: analysis.linksData ? JSON.parse(analysis.linksData) : null,
                 performanceData: analysis.performanceData ? JSON.parse(analysis.performanceData) : null,
+                performanceDesktopData: analysis.performanceDesktopData ? JSON.parse(analysis.performanceDesktopData) : null,
                 croInsights: analysis.croInsights ? JSON.parse(analysis.croInsights) : null,
             },
             error: analysis.errorMessage,
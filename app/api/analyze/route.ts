@@ -2,13 +2,28 @@ import { NextResponse } from 'next/server';
 import { after } from 'next/server'; // Next.js 15+ experimental/RC
 import { formSchema } from '@/types/form-schema';
 import { prisma } from '@/lib/prisma';
+import { env } from '@/lib/env';
 import { scrapeSite } from '@/lib/scraper';
+import type { ThrottlingSelection } from '@/lib/lab-timings';
 import { detectTechnologies } from '@/lib/technology-detector';
+import { auditTechnicalSeo } from '@/lib/seo-audit';
+import { checkLinks } from '@/lib/link-checker';
 import { analyzePerformance } from '@/lib/performance-analyzer';
+import { ESTIMATED_TOTAL_TIME, PERFORMANCE_RUNS } from '@/lib/analysis-config';
 import { analyzeCRO } from '@/lib/cro-analyzer';
 
-// Tempo estimado total para o processo (para feedback de UI)
-const ESTIMATED_TOTAL_TIME = 90;
+// Limites do crawl: além da URL enviada, visita páginas de produto, categoria, etc.
+const CRAWL_OPTIONS = { maxDepth: 1, maxPages: 5 };
+
+// Explora produto → carrinho → checkout (para antes da identificação e do pagamento).
+// Desativado por padrão: só roda com EXPLORE_CHECKOUT=true no ambiente
+const EXPLORE_CHECKOUT = env.EXPLORE_CHECKOUT === 'true';
+
+// Perfis de rede/CPU medidos localmente: desktop sem limitação e o celular típico do comprador brasileiro
+const LAB_PROFILES: ThrottlingSelection[] = [
+  { network: 'none', cpu: 'none' },
+  { network: '4g', cpu: 'mid-range-android' },
+];
 
 export async function POST(request: Request) {
   try {
@@ -73,7 +88,7 @@ async function processAnalysis(analysisId: string, websiteUrl: string) {
   try {
     // Etapa 1: Scraping
     console.time('scraping - ' + analysisId);
-    const scrapedData = await scrapeSite(websiteUrl);
+    const scrapedData = await scrapeSite(websiteUrl, { crawl: CRAWL_OPTIONS, checkout: EXPLORE_CHECKOUT, throttling: LAB_PROFILES });
     console.timeEnd('scraping - ' + analysisId);
 
     await prisma.analysis.update({
@@ -86,7 +101,8 @@ async function processAnalysis(analysisId: string, websiteUrl: string) {
 
     // Etapa 2: Tecnologias
     console.time('tech - ' + analysisId);
-    const technologiesData = await detectTechnologies(websiteUrl);
+    const fingerprints = [scrapedData, ...(scrapedData.crawl?.pages || [])].flatMap((page) => (page.fingerprint ? [page.fingerprint] : []));
+    const technologiesData = await detectTechnologies(websiteUrl, fingerprints);
     console.timeEnd('tech - ' + analysisId);
 
     await prisma.analysis.update({
@@ -96,26 +112,53 @@ async function processAnalysis(analysisId: string, websiteUrl: string) {
       }
     });
 
-    // Etapa 3: Performance
-    // Rate Limit do PageSpeed é generoso, mas bom ter cuidado
+    // Etapa 3: SEO Técnico (robots.txt, sitemap, canonical, noindex, hreflang)
+    console.time('seo - ' + analysisId);
+    const seoData = await auditTechnicalSeo(scrapedData);
+    console.timeEnd('seo - ' + analysisId);
+
+    await prisma.analysis.update({
+      where: { id: analysisId },
+      data: {
+        seoData: JSON.stringify(seoData)
+      }
+    });
+
+    // Etapa 4: Links (quebrados, lentos e cadeias de redirecionamento)
+    console.time('links - ' + analysisId);
+    const linksData = await checkLinks(scrapedData);
+    console.timeEnd('links - ' + analysisId);
+
+    await prisma.analysis.update({
+      where: { id: analysisId },
+      data: {
+        linksData: JSON.stringify(linksData)
+      }
+    });
+
+    // Etapa 5: Performance (mobile e desktop)
+    // Rate Limit do PageSpeed é generoso, mas bom ter cuidado: as estratégias rodam em sequência
     console.time('perf - ' + analysisId);
-    const performanceData = await analyzePerformance(websiteUrl);
+    const performanceData = await analyzePerformance(websiteUrl, 'mobile', PERFORMANCE_RUNS);
+    const performanceDesktopData = await analyzePerformance(websiteUrl, 'desktop', PERFORMANCE_RUNS);
     console.timeEnd('perf - ' + analysisId);
 
     await prisma.analysis.update({
       where: { id: analysisId },
       data: {
-        performanceData: JSON.stringify(performanceData)
+        performanceData: JSON.stringify(performanceData),
+        performanceDesktopData: JSON.stringify(performanceDesktopData)
       }
     });
 
-    // Etapa 4: CRO com Gemini
+    // Etapa 6: CRO com Gemini
     // Esta é a etapa mais crítica e cara
     console.time('cro - ' + analysisId);
     const croInsights = await analyzeCRO(
       scrapedData,
       technologiesData.technologies, // Passamos apenas o array de tecnologias
-      performanceData
+      performanceData,
+      { seo: seoData, links: linksData, performanceDesktop: performanceDesktopData }
     );
     console.timeEnd('cro - ' + analysisId);
 
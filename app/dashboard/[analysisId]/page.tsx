@@ -7,8 +7,30 @@ import { MetricCard } from '@/components/dashboard/metric-card';
 import { PerformanceChart } from '@/components/dashboard/performance-chart';
 import { TechnologiesList } from '@/components/dashboard/technologies-list';
 import { CROInsights } from '@/components/dashboard/cro-insights';
+import { CrawledPages } from '@/components/dashboard/crawled-pages';
+import { ViewportComparison } from '@/components/dashboard/viewport-comparison';
+import { StructuredDataPanel } from '@/components/dashboard/structured-data-panel';
+import { TrustSignalsPanel } from '@/components/dashboard/trust-signals-panel';
+import { NetworkReport } from '@/components/dashboard/network-report';
+import { SeoAuditPanel } from '@/components/dashboard/seo-audit-panel';
+import { LinkCheckPanel } from '@/components/dashboard/link-check-panel';
+import { AccessibilityPanel } from '@/components/dashboard/accessibility-panel';
+import { LgpdPanel } from '@/components/dashboard/lgpd-panel';
+import { SecurityPanel } from '@/components/dashboard/security-panel';
+import { FormsPanel } from '@/components/dashboard/forms-panel';
+import { CheckoutFunnel } from '@/components/dashboard/checkout-funnel';
+import { AboveTheFoldPanel } from '@/components/dashboard/above-the-fold-panel';
+import { ConsoleErrorsPanel } from '@/components/dashboard/console-errors-panel';
+import { LabTimingsPanel } from '@/components/dashboard/lab-timings-panel';
+import { PerformanceAuditsPanel } from '@/components/dashboard/performance-audits-panel';
+import { FieldDataPanel } from '@/components/dashboard/field-data-panel';
+import { ImageAuditPanel } from '@/components/dashboard/image-audit-panel';
 import { ProcessingView } from '@/components/dashboard/processing-view';
 import { cn } from '@/lib/utils';
+import type { SeoAuditReport } from '@/lib/seo-audit';
+import type { LinkCheckReport } from '@/lib/link-checker';
+import type { PerformanceMetrics } from '@/lib/performance-analyzer';
+import { formatMetricValue, getMetricValues, METRIC_RATING_LABELS } from '@/lib/performance-metrics';
 
 // Tipos para os dados da análise
 interface AnalysisData {
@@ -23,7 +45,10 @@ interface AnalysisData {
     data: {
         scrapedData: any;
         technologiesData: any;
+        seoData: SeoAuditReport | null;
+        linksData: LinkCheckReport | null;
         performanceData: any;
+        performanceDesktopData: PerformanceMetrics | null;
         croInsights: any;
     };
     error?: string;
@@ -118,7 +143,7 @@ export default function DashboardPage({ params }: { params: Promise<{ analysisId
     }
 
     // 4. Dashboard Completo (Completed)
-    return <CompletedDashboard data={analysisData.data} />;
+    return <CompletedDashboard analysisId={analysisData.id} data={analysisData.data} />;
 }
 
 // --- Sub-componentes ---
@@ -142,8 +167,15 @@ function ErrorView({ message, onRetry }: { message: string; onRetry: () => void
     );
 }
 
-function CompletedDashboard({ data }: { data: any }) {
-    const { performanceData, technologiesData, croInsights, scrapedData } = data;
+function CompletedDashboard({ analysisId, data }: { analysisId: string; data: any }) {
+    const { performanceData, performanceDesktopData, technologiesData, seoData, linksData, croInsights, scrapedData } = data;
+
+    // Desktop só entra nos KPIs quando a análise dessa estratégia deu certo (análises antigas não têm)
+    const desktopData: PerformanceMetrics | null = performanceDesktopData && !performanceDesktopData.error ? performanceDesktopData : null;
+    const lcp = getMetricValues(performanceData).lcp;
+
+    // Página enviada + páginas internas visitadas no crawl
+    const analyzedPages = scrapedData ? [scrapedData, ...(scrapedData.crawl?.pages || [])] : [];
 
     return (
         <div className="min-h-screen bg-black text-white p-6 md:p-8 lg:p-12">
@@ -160,11 +192,17 @@ function CompletedDashboard({ data }: { data: any }) {
                 {/* KPIs Principais */}
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                     <MetricCard
-                        title="Performance Score"
+                        title={desktopData ? 'Performance Score (Mobile)' : 'Performance Score'}
                         value={performanceData.score}
                         icon={<Activity className="h-6 w-6" />}
                         trend={performanceData.score >= 90 ? 'up' : performanceData.score < 50 ? 'down' : 'neutral'}
-                        description="Pontuação geral do PageSpeed"
+                        description={[
+                            performanceData.source === 'local' ? 'Medição local (dados de laboratório)' : 'Pontuação geral do PageSpeed',
+                            performanceData.runs?.count > 1 &&
+                                `Mediana de ${performanceData.runs.count} execuções (${performanceData.runs.spread.score.min}–${performanceData.runs.spread.score.max})`,
+                            performanceData.runs?.unstable && 'Instável',
+                            desktopData && `Desktop: ${desktopData.score}/100`,
+                        ].filter(Boolean).join(' · ')}
                     />
                     <MetricCard
                         title="Tecnologias"
@@ -174,10 +212,14 @@ function CompletedDashboard({ data }: { data: any }) {
                     />
                     <MetricCard
                         title="LCP"
-                        value={`${performanceData.lcp}s`}
+                        value={formatMetricValue(lcp)}
                         icon={<Clock className="h-6 w-6" />}
-                        trend={parseFloat(performanceData.lcp) < 2.5 ? 'up' : 'down'}
-                        description="Largest Contentful Paint"
+                        trend={lcp.rating === 'good' ? 'up' : lcp.rating === 'poor' ? 'down' : 'neutral'}
+                        description={[
+                            desktopData ? 'Largest Contentful Paint (mobile)' : 'Largest Contentful Paint',
+                            lcp.rating && METRIC_RATING_LABELS[lcp.rating],
+                            desktopData && `Desktop: ${formatMetricValue(getMetricValues(desktopData).lcp)}`,
+                        ].filter(Boolean).join(' · ')}
                     />
                     <MetricCard
                         title="Score CRO"
@@ -190,10 +232,81 @@ function CompletedDashboard({ data }: { data: any }) {
 
                 {/* Gráficos e Listas */}
                 <div className="grid gap-6 lg:grid-cols-2">
-                    <PerformanceChart data={performanceData} />
+                    <PerformanceChart data={performanceData} desktopData={desktopData} />
                     <TechnologiesList technologies={technologiesData.technologies} />
                 </div>
 
+                {/* Dados de Campo (CrUX) vs. Laboratório */}
+                {performanceData.fieldData && <FieldDataPanel performance={performanceData} />}
+
+                {/* Oportunidades e Diagnósticos do Lighthouse */}
+                {performanceData.audits && <PerformanceAuditsPanel audits={performanceData.audits} />}
+
+                {/* Tempos Locais por Perfil de Rede/CPU */}
+                {scrapedData?.labTimings?.length > 0 && <LabTimingsPanel timings={scrapedData.labTimings} />}
+
+                {/* SEO Técnico */}
+                {seoData && <SeoAuditPanel seo={seoData} />}
+
+                {/* Links Quebrados e Redirecionamentos */}
+                {linksData && <LinkCheckPanel links={linksData} />}
+
+                {/* Peso da Página e Terceiros */}
+                {scrapedData?.network && (
+                    <NetworkReport network={scrapedData.network} harUrl={`/api/analyze/${analysisId}/har`} />
+                )}
+
+                {/* Erros de JavaScript e Requisições */}
+                {scrapedData?.console && <ConsoleErrorsPanel pages={analyzedPages} />}
+
+                {/* Otimização de Imagens */}
+                {scrapedData?.imageAudit && <ImageAuditPanel images={scrapedData.imageAudit} />}
+
+                {/* Primeira Dobra (CTA, Busca, Banners) */}
+                {scrapedData?.aboveTheFold && (
+                    <AboveTheFoldPanel screenshot={scrapedData.screenshot} report={scrapedData.aboveTheFold} />
+                )}
+
+                {/* Comparação Desktop x Mobile */}
+                {scrapedData?.viewports && (
+                    <ViewportComparison
+                        desktopScreenshot={scrapedData.screenshot}
+                        comparison={scrapedData.viewports}
+                    />
+                )}
+
+                {/* Páginas Internas (Modo Crawl) */}
+                {scrapedData?.crawl?.pages?.length > 0 && (
+                    <CrawledPages crawl={scrapedData.crawl} />
+                )}
+
+                {/* Confiança e Prova Social */}
+                {scrapedData?.trustSignals && (
+                    <TrustSignalsPanel trust={scrapedData.trustSignals} />
+                )}
+
+                {/* Caminho de Compra (Produto → Checkout) */}
+                {scrapedData?.checkoutFunnel && <CheckoutFunnel funnel={scrapedData.checkoutFunnel} />}
+
+                {/* Formulários e Atrito */}
+                {scrapedData?.forms && <FormsPanel pages={analyzedPages} />}
+
+                {/* Segurança (Cabeçalhos e Certificado) */}
+                {scrapedData?.security && <SecurityPanel security={scrapedData.security} />}
+
+                {/* Conformidade LGPD */}
+                {scrapedData?.lgpd && <LgpdPanel lgpd={scrapedData.lgpd} />}
+
+                {/* Acessibilidade (WCAG) */}
+                {scrapedData?.accessibility && (
+                    <AccessibilityPanel accessibility={scrapedData.accessibility} />
+                )}
+
+                {/* Dados Estruturados (Schema.org) */}
+                {scrapedData?.structuredData && (
+                    <StructuredDataPanel pages={analyzedPages} />
+                )}
+
                 {/* Insights de IA (Full Width) */}
                 <CROInsights analysis={croInsights} />
 
@@ -0,0 +1,115 @@
+import { ScanEye, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { FOLD_ROLE_LABELS, type AboveTheFoldReport, type FoldElementRole } from '@/lib/above-the-fold';
+
+interface AboveTheFoldPanelProps {
+    screenshot: string;
+    report: AboveTheFoldReport;
+}
+
+const ROLE_STYLES: Record<FoldElementRole, { box: string; badge: string }> = {
+    'cta': { box: 'border-green-500 bg-green-500/10', badge: 'bg-green-500 text-black' },
+    'search': { box: 'border-sky-500 bg-sky-500/10', badge: 'bg-sky-500 text-black' },
+    'value-proposition': { box: 'border-violet-500 bg-violet-500/10', badge: 'bg-violet-500 text-white' },
+    'banner': { box: 'border-yellow-500 bg-yellow-500/5', badge: 'bg-yellow-500 text-black' },
+    'cart': { box: 'border-pink-500 bg-pink-500/10', badge: 'bg-pink-500 text-white' },
+};
+
+/**
+ * Screenshot da primeira dobra com as regiões identificadas sobrepostas
+ * (CTA, busca, proposta de valor, banners e carrinho) e os problemas encontrados.
+ */
+export function AboveTheFoldPanel({ screenshot, report }: AboveTheFoldPanelProps) {
+    const { width, height } = report.viewport;
+    const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                    <ScanEye className="h-5 w-5 text-primary" />
+                    Primeira Dobra
+                </h3>
+                <p className="text-sm text-zinc-400">
+                    O que o visitante vê antes de rolar a página ({width}×{height}).
+                </p>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                {/* Screenshot com regiões */}
+                <div className="relative lg:col-span-2">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                        src={screenshot}
+                        alt="Screenshot da primeira dobra"
+                        className="w-full rounded-lg border border-zinc-800"
+                    />
+                    {report.elements.map((element, idx) => (
+                        <div
+                            key={idx}
+                            className={cn('absolute rounded-sm border-2', ROLE_STYLES[element.role].box)}
+                            style={{
+                                left: toPercent(element.box.x, width),
+                                top: toPercent(element.box.y, height),
+                                width: toPercent(element.box.width, width),
+                                height: toPercent(element.box.height, height),
+                            }}
+                            title={`${FOLD_ROLE_LABELS[element.role]}: ${element.label}`}
+                        >
+                            <span
+                                className={cn(
+                                    'absolute left-0 top-0 whitespace-nowrap rounded-br px-1 text-[10px] font-medium',
+                                    ROLE_STYLES[element.role].badge
+                                )}
+                            >
+                                {FOLD_ROLE_LABELS[element.role]}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Elementos e problemas */}
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        {report.elements.map((element, idx) => (
+                            <div key={idx} className="rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className={cn('rounded px-1.5 py-0.5 text-[10px] font-medium', ROLE_STYLES[element.role].badge)}>
+                                        {FOLD_ROLE_LABELS[element.role]}
+                                    </span>
+                                    <span className="shrink-0 text-xs text-zinc-500">
+                                        {element.box.width}×{element.box.height}px · {element.areaShare}%
+                                    </span>
+                                </div>
+                                <p className="mt-1 truncate text-zinc-300" title={element.label}>{element.label}</p>
+                                {(element.contrast !== null || element.backgroundContrast !== null) && (
+                                    <p className="text-xs text-zinc-500">
+                                        {element.contrast !== null && `Contraste do texto ${element.contrast}:1`}
+                                        {element.contrast !== null && element.backgroundContrast !== null && ' · '}
+                                        {element.backgroundContrast !== null && `Destaque do fundo ${element.backgroundContrast}:1`}
+                                    </p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {report.findings.length > 0 && (
+                        <ul className="space-y-2">
+                            {report.findings.map((finding, idx) => (
+                                <li key={idx} className="flex items-start gap-2 text-sm text-zinc-300">
+                                    <AlertTriangle
+                                        className={cn(
+                                            'mt-0.5 h-4 w-4 shrink-0',
+                                            finding.severity === 'erro' ? 'text-red-500' : 'text-yellow-500'
+                                        )}
+                                    />
+                                    {finding.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
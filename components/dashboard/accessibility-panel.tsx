@@ -0,0 +1,91 @@
+import { Accessibility } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getScoreColor } from '@/lib/chart-utils';
+import { groupViolationsByCriterion, type AccessibilityImpact, type AccessibilityReport } from '@/lib/accessibility-audit';
+
+interface AccessibilityPanelProps {
+    accessibility: AccessibilityReport;
+}
+
+const IMPACT_STYLES: Record<AccessibilityImpact, string> = {
+    'crítico': 'bg-red-500/10 text-red-500',
+    'sério': 'bg-orange-500/10 text-orange-500',
+    'moderado': 'bg-yellow-500/10 text-yellow-500',
+    'menor': 'bg-zinc-500/10 text-zinc-400',
+};
+
+/**
+ * Painel de acessibilidade: violações agrupadas por critério WCAG, com severidade e exemplos.
+ * Barreiras de acessibilidade também impedem compras (formulários sem rótulo, botões sem nome, baixo contraste).
+ */
+export function AccessibilityPanel({ accessibility }: AccessibilityPanelProps) {
+    const scoreColor = getScoreColor(accessibility.score);
+    const groups = groupViolationsByCriterion(accessibility.violations);
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Accessibility className="h-5 w-5 text-primary" />
+                        Acessibilidade (WCAG)
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        {accessibility.violations.length} regras com problemas, {accessibility.passes.length} aprovadas.
+                    </p>
+                </div>
+                <div
+                    className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-4 text-lg font-bold"
+                    style={{ borderColor: scoreColor, color: scoreColor }}
+                >
+                    {accessibility.score}
+                </div>
+            </div>
+
+            {/* Elementos afetados por severidade */}
+            <div className="flex flex-wrap gap-2">
+                {(Object.keys(IMPACT_STYLES) as AccessibilityImpact[]).map((impact) => (
+                    <span key={impact} className={cn('rounded-full px-3 py-1 text-xs font-medium', IMPACT_STYLES[impact])}>
+                        {accessibility.byImpact[impact]} {impact}
+                    </span>
+                ))}
+            </div>
+
+            {groups.length === 0 ? (
+                <p className="text-sm text-zinc-500">Nenhuma violação encontrada nas regras verificadas.</p>
+            ) : (
+                <div className="space-y-4">
+                    {groups.map((group) => (
+                        <div key={group.wcag} className="rounded-xl border border-zinc-800 bg-zinc-900/30 p-4">
+                            <h4 className="mb-3 font-medium text-zinc-200">
+                                {group.wcag} {group.wcagName}
+                                <span className="ml-2 text-xs font-normal text-zinc-500">Nível {group.level}</span>
+                            </h4>
+                            <div className="space-y-3">
+                                {group.violations.map((violation) => (
+                                    <div key={violation.ruleId}>
+                                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                                            <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', IMPACT_STYLES[violation.impact])}>
+                                                {violation.impact}
+                                            </span>
+                                            <span className="text-zinc-300">{violation.description}</span>
+                                            <span className="text-xs text-zinc-500">({violation.count} elementos)</span>
+                                        </div>
+                                        <ul className="mt-1 space-y-0.5 pl-2">
+                                            {violation.nodes.map((node, idx) => (
+                                                <li key={idx} className="truncate font-mono text-xs text-zinc-500" title={node.snippet}>
+                                                    {node.selector}
+                                                    {node.detail && <span className="ml-2 font-sans">{node.detail}</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
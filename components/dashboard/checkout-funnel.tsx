@@ -0,0 +1,84 @@
+import { ShoppingCart, CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CHECKOUT_PLATFORM_LABELS, FUNNEL_STEP_LABELS, type CheckoutFunnel as CheckoutFunnelData } from '@/lib/checkout-explorer';
+
+interface CheckoutFunnelProps {
+    funnel: CheckoutFunnelData;
+}
+
+/**
+ * Linha do tempo do caminho de compra: produto → carrinho → checkout,
+ * com cliques, tempo e screenshot de cada etapa.
+ */
+export function CheckoutFunnel({ funnel }: CheckoutFunnelProps) {
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <ShoppingCart className="h-5 w-5 text-primary" />
+                        Caminho de Compra
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Do produto ao checkout, sem preencher dados nem enviar pagamento · Plataforma: {CHECKOUT_PLATFORM_LABELS[funnel.platform]}
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs font-medium">
+                    <span className="rounded-full bg-zinc-800 px-3 py-1 text-zinc-300">
+                        {funnel.totalClicks} cliques
+                    </span>
+                    <span
+                        className={cn(
+                            'rounded-full px-3 py-1',
+                            funnel.reachedCheckout ? 'bg-green-500/10 text-green-500' : 'bg-red-500/10 text-red-500'
+                        )}
+                    >
+                        {funnel.reachedCheckout ? 'Checkout alcançado' : `Interrompido: ${FUNNEL_STEP_LABELS[funnel.blockedAt || 'checkout']}`}
+                    </span>
+                    {funnel.guestCheckout !== null && (
+                        <span
+                            className={cn(
+                                'rounded-full px-3 py-1',
+                                funnel.guestCheckout ? 'bg-green-500/10 text-green-500' : 'bg-yellow-500/10 text-yellow-500'
+                            )}
+                        >
+                            {funnel.guestCheckout ? 'Compra sem cadastro' : 'Exige cadastro'}
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            <ol className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+                {funnel.steps.map((step, idx) => (
+                    <li key={idx} className="space-y-2 rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="flex items-center gap-2 text-sm font-medium text-zinc-200">
+                                {step.success ? (
+                                    <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                                ) : (
+                                    <XCircle className="h-4 w-4 shrink-0 text-red-500" />
+                                )}
+                                {idx + 1}. {FUNNEL_STEP_LABELS[step.step]}
+                            </span>
+                            <span className="shrink-0 text-xs text-zinc-500">
+                                {step.clicks} clique(s) · {(step.durationMs / 1000).toFixed(1)}s
+                            </span>
+                        </div>
+                        {step.screenshot && (
+                            <>
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img
+                                    src={step.screenshot}
+                                    alt={`Screenshot da etapa ${FUNNEL_STEP_LABELS[step.step]}`}
+                                    className="w-full rounded-md border border-zinc-800"
+                                />
+                            </>
+                        )}
+                        <p className="truncate text-xs text-zinc-500" title={step.url}>{step.url}</p>
+                        {step.note && <p className="text-xs text-zinc-400">{step.note}</p>}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
@@ -0,0 +1,111 @@
+import { Bug } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ScrapedData } from '@/lib/scraper';
+import { PAGE_TYPE_LABELS } from '@/lib/page-classifier';
+import { CONSOLE_ENTRY_LABELS, type ConsoleEntryKind } from '@/lib/console-capture';
+
+interface ConsoleErrorsPanelProps {
+    pages: Pick<ScrapedData, 'url' | 'pageType' | 'console'>[];
+}
+
+const KIND_STYLES: Record<ConsoleEntryKind, string> = {
+    'js-exception': 'bg-red-500/10 text-red-500',
+    'console-error': 'bg-red-500/10 text-red-400',
+    'csp-violation': 'bg-orange-500/10 text-orange-500',
+    'http-error': 'bg-orange-500/10 text-orange-400',
+    'request-failed': 'bg-yellow-500/10 text-yellow-500',
+    'console-warning': 'bg-zinc-800 text-zinc-400',
+};
+
+// Ordem de exibição: o que mais quebra a página vem primeiro
+const KIND_ORDER: ConsoleEntryKind[] = ['js-exception', 'console-error', 'csp-violation', 'http-error', 'request-failed', 'console-warning'];
+
+/**
+ * Erros registrados durante o carregamento de cada página analisada:
+ * exceções JavaScript, console, requisições com falha e violações de CSP.
+ */
+export function ConsoleErrorsPanel({ pages }: ConsoleErrorsPanelProps) {
+    // Páginas sem relatório (análises antigas) são ignoradas
+    const pagesWithData = pages.filter((page) => page.console);
+    const totalErrors = pagesWithData.reduce(
+        (sum, page) => sum + page.console.counts['js-exception'] + page.console.counts['console-error'],
+        0
+    );
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Bug className="h-5 w-5 text-primary" />
+                        Erros de JavaScript e Requisições
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Registrados durante o carregamento de cada página analisada.
+                    </p>
+                </div>
+                <span
+                    className={cn(
+                        'shrink-0 rounded-full px-3 py-1 text-xs font-medium',
+                        totalErrors > 0 ? 'bg-red-500/10 text-red-500' : 'bg-green-500/10 text-green-500'
+                    )}
+                >
+                    {totalErrors > 0 ? `${totalErrors} erro(s) de JavaScript` : 'Sem erros de JavaScript'}
+                </span>
+            </div>
+
+            <div className="space-y-4">
+                {pagesWithData.map((page) => {
+                    const entries = [...page.console.entries].sort(
+                        (a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || b.count - a.count
+                    );
+
+                    return (
+                        <div key={page.url} className="rounded-xl border border-zinc-800 bg-zinc-900/30 p-4">
+                            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                                <div className="min-w-0">
+                                    <span className="text-xs font-medium uppercase text-zinc-500">
+                                        {PAGE_TYPE_LABELS[page.pageType]}
+                                    </span>
+                                    <p className="truncate text-sm text-zinc-300" title={page.url}>{page.url}</p>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                    {KIND_ORDER.filter((kind) => page.console.counts[kind] > 0).map((kind) => (
+                                        <span key={kind} className={cn('rounded px-1.5 py-0.5 text-[10px] font-medium', KIND_STYLES[kind])}>
+                                            {CONSOLE_ENTRY_LABELS[kind]}: {page.console.counts[kind]}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {entries.length === 0 ? (
+                                <p className="text-sm text-zinc-500">Nenhum erro registrado.</p>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {entries.slice(0, 8).map((entry, idx) => (
+                                        <li key={idx} className="flex items-start gap-2 text-xs">
+                                            <span className={cn('shrink-0 rounded px-1.5 py-0.5 font-medium', KIND_STYLES[entry.kind])}>
+                                                {CONSOLE_ENTRY_LABELS[entry.kind]}
+                                            </span>
+                                            <div className="min-w-0">
+                                                <p className="break-words text-zinc-300">
+                                                    {entry.message}
+                                                    {entry.count > 1 && <span className="text-zinc-500"> ({entry.count}x)</span>}
+                                                </p>
+                                                {entry.url && (
+                                                    <p className="truncate text-zinc-500" title={entry.url}>
+                                                        {entry.thirdParty && 'Terceiro · '}{entry.url}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
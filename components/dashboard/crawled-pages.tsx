@@ -0,0 +1,85 @@
+import { Home, LayoutGrid, Package, ShoppingCart, FileText, File, ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CrawlResult } from '@/lib/scraper';
+import { PAGE_TYPE_LABELS, type PageType } from '@/lib/page-classifier';
+
+interface CrawledPagesProps {
+    crawl: CrawlResult;
+}
+
+/**
+ * Mapeamento de ícones e cores por tipo de página.
+ */
+const PAGE_TYPE_STYLES: Record<PageType, { icon: typeof Home; color: string; bg: string }> = {
+    home: { icon: Home, color: 'text-blue-500', bg: 'bg-blue-500/10' },
+    category: { icon: LayoutGrid, color: 'text-purple-500', bg: 'bg-purple-500/10' },
+    product: { icon: Package, color: 'text-green-500', bg: 'bg-green-500/10' },
+    cart: { icon: ShoppingCart, color: 'text-primary', bg: 'bg-primary/10' },
+    institutional: { icon: FileText, color: 'text-cyan-500', bg: 'bg-cyan-500/10' },
+    other: { icon: File, color: 'text-zinc-500', bg: 'bg-zinc-500/10' },
+};
+
+/**
+ * Componente que lista as páginas internas visitadas no modo crawl.
+ * Exibe o tipo de cada página (produto, categoria, etc.) e os principais dados on-page.
+ */
+export function CrawledPages({ crawl }: CrawledPagesProps) {
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="text-lg font-semibold text-white">Páginas Analisadas</h3>
+                <p className="text-sm text-zinc-400">
+                    Páginas internas visitadas a partir da URL enviada (profundidade máxima {crawl.maxDepth}).
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {crawl.pages.map((page) => {
+                    const style = PAGE_TYPE_STYLES[page.pageType] || PAGE_TYPE_STYLES.other;
+                    const Icon = style.icon;
+
+                    return (
+                        <div
+                            key={page.url}
+                            className="rounded-xl border border-zinc-800 bg-zinc-900/30 p-4 transition-all hover:border-zinc-700"
+                        >
+                            <div className="mb-3 flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                    <div className={cn('rounded-lg p-2', style.bg, style.color)}>
+                                        <Icon className="h-4 w-4" />
+                                    </div>
+                                    <span className="font-medium text-zinc-200">{PAGE_TYPE_LABELS[page.pageType]}</span>
+                                </div>
+                                <a
+                                    href={page.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-zinc-500 hover:text-primary"
+                                    title={page.url}
+                                >
+                                    <ExternalLink className="h-4 w-4" />
+                                </a>
+                            </div>
+
+                            <p className="truncate text-sm font-medium text-zinc-300" title={page.title}>
+                                {page.title || 'Sem título'}
+                            </p>
+                            <p className="mt-1 truncate text-xs text-zinc-500" title={page.headings.h1.join(' | ')}>
+                                H1: {page.headings.h1[0] || 'ausente'}
+                            </p>
+                            <p className="mt-1 text-xs text-zinc-500">
+                                Imagens sem Alt: {page.images.withoutAlt} de {page.images.total}
+                            </p>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {crawl.failed.length > 0 && (
+                <p className="text-xs text-zinc-500">
+                    {crawl.failed.length} página(s) não puderam ser analisadas.
+                </p>
+            )}
+        </div>
+    );
+}
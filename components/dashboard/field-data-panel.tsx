@@ -0,0 +1,150 @@
+import { Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PerformanceMetrics } from '@/lib/performance-analyzer';
+import { formatMetricValue, getMetricValues, toMetricValue } from '@/lib/performance-metrics';
+import {
+    compareFieldWithLab,
+    FIELD_CATEGORY_LABELS,
+    FIELD_METRIC_LABELS,
+    type FieldCategory,
+    type FieldMetric,
+    type FieldMetricId,
+} from '@/lib/crux-field-data';
+
+interface FieldDataPanelProps {
+    performance: PerformanceMetrics;
+}
+
+const CATEGORY_STYLES: Record<FieldCategory, string> = {
+    FAST: 'bg-green-500/10 text-green-500',
+    AVERAGE: 'bg-yellow-500/10 text-yellow-500',
+    SLOW: 'bg-red-500/10 text-red-500',
+};
+
+const METRIC_ORDER: FieldMetricId[] = ['lcp', 'inp', 'cls', 'fcp', 'ttfb'];
+
+/**
+ * Dados de campo do CrUX (p75 de usuários reais do Chrome, últimos 28 dias) da página e do domínio,
+ * ao lado dos valores de laboratório, com a explicação de cada divergência.
+ */
+export function FieldDataPanel({ performance }: FieldDataPanelProps) {
+    const page = performance.fieldData?.page || null;
+    const origin = performance.fieldData?.origin || null;
+    // Página com dados próprios tem prioridade; sem eles, a origem representa o site
+    const reference = page && !page.originFallback ? page : origin;
+    const lab = getMetricValues(performance);
+    const comparisons = reference ? compareFieldWithLab(reference, lab) : [];
+
+    const labValues: Partial<Record<FieldMetricId, string>> = {
+        lcp: formatMetricValue(lab.lcp),
+        cls: formatMetricValue(lab.cls),
+        fcp: formatMetricValue(lab.fcp),
+    };
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Users className="h-5 w-5 text-primary" />
+                        Usuários Reais vs. Laboratório
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Percentil 75 dos visitantes reais no Chrome (CrUX, últimos 28 dias, mobile) comparado ao teste de laboratório.
+                    </p>
+                </div>
+                {reference?.overallCategory && (
+                    <span className={cn('shrink-0 rounded-full px-3 py-1 text-xs font-medium', CATEGORY_STYLES[reference.overallCategory])}>
+                        Core Web Vitals: {FIELD_CATEGORY_LABELS[reference.overallCategory]}
+                    </span>
+                )}
+            </div>
+
+            {!reference ? (
+                <p className="text-sm text-zinc-500">
+                    Sem dados de campo: o site não tem tráfego suficiente no Chrome para entrar no CrUX. Só os dados de laboratório estão disponíveis.
+                </p>
+            ) : (
+                <>
+                    {(!page || page.originFallback) && (
+                        <p className="text-xs text-zinc-500">
+                            A página não tem tráfego suficiente no CrUX: valores do domínio inteiro usados como referência.
+                        </p>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-zinc-800 text-xs text-zinc-500">
+                                    <th className="py-2 pr-4 font-medium">Métrica</th>
+                                    <th className="py-2 pr-4 font-medium">Página (p75)</th>
+                                    <th className="py-2 pr-4 font-medium">Domínio (p75)</th>
+                                    <th className="py-2 pr-4 font-medium">Laboratório</th>
+                                    <th className="py-2 font-medium">Distribuição das visitas</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {METRIC_ORDER.map((metric) => {
+                                    const pageMetric = page && !page.originFallback ? page.metrics[metric] : undefined;
+                                    const originMetric = origin?.metrics[metric];
+                                    const distributionMetric = pageMetric || originMetric;
+
+                                    return (
+                                        <tr key={metric} className="border-b border-zinc-800/50">
+                                            <td className="py-2 pr-4 font-medium text-zinc-200">{FIELD_METRIC_LABELS[metric]}</td>
+                                            <td className="py-2 pr-4"><FieldValue metric={metric} value={pageMetric} /></td>
+                                            <td className="py-2 pr-4"><FieldValue metric={metric} value={originMetric} /></td>
+                                            <td className="py-2 pr-4 text-zinc-400">
+                                                {labValues[metric] || <span className="text-xs text-zinc-600">Não medido</span>}
+                                            </td>
+                                            <td className="py-2">{distributionMetric && <DistributionBar metric={distributionMetric} />}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {comparisons.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium text-zinc-300">Por que campo e laboratório divergem</p>
+                            <ul className="space-y-1">
+                                {comparisons.map((comparison) => (
+                                    <li key={comparison.metric} className="flex items-start gap-2 text-xs text-zinc-400">
+                                        <span className={cn('shrink-0 rounded px-1.5 py-0.5 font-medium', CATEGORY_STYLES[comparison.fieldCategory])}>
+                                            {FIELD_METRIC_LABELS[comparison.metric]}
+                                        </span>
+                                        {comparison.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
+
+function FieldValue({ metric, value }: { metric: FieldMetricId; value?: FieldMetric }) {
+    if (!value) return <span className="text-xs text-zinc-600">Sem dados</span>;
+    return (
+        <span className={cn('rounded px-1.5 py-0.5 text-xs font-medium', CATEGORY_STYLES[value.category])}>
+            {formatMetricValue(toMetricValue(metric, value.percentile))}
+        </span>
+    );
+}
+
+function DistributionBar({ metric }: { metric: FieldMetric }) {
+    const { good, needsImprovement, poor } = metric.distribution;
+    return (
+        <div
+            className="flex h-2 w-40 overflow-hidden rounded-full bg-zinc-800"
+            title={`Bom: ${Math.round(good * 100)}% · Precisa melhorar: ${Math.round(needsImprovement * 100)}% · Ruim: ${Math.round(poor * 100)}%`}
+        >
+            <div className="bg-green-500" style={{ width: `${good * 100}%` }} />
+            <div className="bg-yellow-500" style={{ width: `${needsImprovement * 100}%` }} />
+            <div className="bg-red-500" style={{ width: `${poor * 100}%` }} />
+        </div>
+    );
+}
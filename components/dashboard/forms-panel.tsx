@@ -0,0 +1,105 @@
+import { FormInput } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ScrapedData } from '@/lib/scraper';
+import { PAGE_TYPE_LABELS } from '@/lib/page-classifier';
+import { FORM_ISSUE_LABELS, FORM_KIND_LABELS } from '@/lib/form-analysis';
+
+interface FormsPanelProps {
+    pages: Pick<ScrapedData, 'url' | 'pageType' | 'forms'>[];
+}
+
+/**
+ * Inventário dos formulários de cada página analisada.
+ * Destaca formulários longos, sem autocomplete, sem máscara ou com teclado inadequado no celular.
+ */
+export function FormsPanel({ pages }: FormsPanelProps) {
+    // Páginas sem relatório (análises antigas) ou sem formulários são ignoradas
+    const pagesWithForms = pages.filter((page) => page.forms?.forms.length);
+    const forms = pagesWithForms.flatMap((page) => page.forms!.forms);
+    const longForms = forms.filter((form) => form.issues.includes('long')).length;
+    const missingAutocomplete = forms.filter((form) => form.issues.includes('missing-autocomplete')).length;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <FormInput className="h-5 w-5 text-primary" />
+                        Formulários e Atrito
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Campos, máscaras e autocomplete dos formulários encontrados.
+                    </p>
+                </div>
+                <div className="flex gap-2 text-xs font-medium">
+                    <span className={cn('rounded-full px-3 py-1', longForms > 0 ? 'bg-red-500/10 text-red-500' : 'bg-green-500/10 text-green-500')}>
+                        {longForms} longo(s)
+                    </span>
+                    <span className={cn('rounded-full px-3 py-1', missingAutocomplete > 0 ? 'bg-yellow-500/10 text-yellow-500' : 'bg-green-500/10 text-green-500')}>
+                        {missingAutocomplete} sem autocomplete
+                    </span>
+                </div>
+            </div>
+
+            {pagesWithForms.length === 0 ? (
+                <p className="text-sm text-zinc-500">Nenhum formulário encontrado nas páginas analisadas.</p>
+            ) : (
+                <div className="space-y-4">
+                    {pagesWithForms.map((page) => (
+                        <div key={page.url} className="rounded-xl border border-zinc-800 bg-zinc-900/30 p-4">
+                            <div className="mb-3 min-w-0">
+                                <span className="text-xs font-medium uppercase text-zinc-500">
+                                    {PAGE_TYPE_LABELS[page.pageType]}
+                                </span>
+                                <p className="truncate text-sm text-zinc-300" title={page.url}>{page.url}</p>
+                            </div>
+
+                            <div className="space-y-2">
+                                {page.forms!.forms.map((form, idx) => (
+                                    <div
+                                        key={idx}
+                                        className={cn(
+                                            'rounded-md border bg-zinc-900/50 px-3 py-2 text-sm',
+                                            form.issues.length > 0 ? 'border-yellow-500/30' : 'border-zinc-800/50'
+                                        )}
+                                    >
+                                        <div className="flex items-center justify-between gap-4">
+                                            <span className="font-medium text-zinc-200">{FORM_KIND_LABELS[form.kind]}</span>
+                                            <span className="shrink-0 text-xs text-zinc-500">
+                                                {form.fieldCount} campos · {form.requiredCount} obrigatórios
+                                            </span>
+                                        </div>
+                                        <p className="truncate text-xs text-zinc-500" title={form.fields.map((field) => field.label).join(', ')}>
+                                            {form.fields.map((field) => field.label).join(', ')}
+                                            {form.submitText && ` · botão "${form.submitText}"`}
+                                        </p>
+                                        {(form.masks.length > 0 || form.issues.length > 0) && (
+                                            <div className="mt-1 flex flex-wrap gap-1">
+                                                {form.masks.map((mask) => (
+                                                    <span key={mask} className="rounded bg-zinc-800 px-1.5 py-0.5 text-[10px] font-medium uppercase text-zinc-400">
+                                                        {mask}
+                                                    </span>
+                                                ))}
+                                                {form.issues.map((issue) => (
+                                                    <span
+                                                        key={issue}
+                                                        className={cn(
+                                                            'rounded px-1.5 py-0.5 text-[10px] font-medium',
+                                                            issue === 'long' ? 'bg-red-500/10 text-red-500' : 'bg-yellow-500/10 text-yellow-500'
+                                                        )}
+                                                    >
+                                                        {FORM_ISSUE_LABELS[issue]}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+import { ImageIcon, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatBytes } from '@/lib/chart-utils';
+import { IMAGE_ISSUE_LABELS, type ImageAuditReport, type ImageIssueCode } from '@/lib/image-audit';
+
+interface ImageAuditPanelProps {
+    images: ImageAuditReport;
+}
+
+const ISSUE_STYLES: Record<ImageIssueCode, string> = {
+    'lazy-lcp': 'bg-red-500/10 text-red-500',
+    'oversized': 'bg-orange-500/10 text-orange-500',
+    'legacy-format': 'bg-yellow-500/10 text-yellow-500',
+    'missing-lazy': 'bg-zinc-800 text-zinc-400',
+};
+
+/**
+ * Seção de otimização de imagens: peso total, economia estimada e imagens
+ * superdimensionadas, sem formato moderno ou com lazy loading no LCP.
+ */
+export function ImageAuditPanel({ images }: ImageAuditPanelProps) {
+    const savingsShare = images.totalBytes > 0
+        ? Math.round((images.estimatedSavings / images.totalBytes) * 100)
+        : 0;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                    <ImageIcon className="h-5 w-5 text-primary" />
+                    Otimização de Imagens
+                </h3>
+                <p className="text-sm text-zinc-400">
+                    Formato, peso e dimensões das imagens da página principal.
+                </p>
+            </div>
+
+            {/* Resumo */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <Stat label="Peso em imagens" value={formatBytes(images.totalBytes)} />
+                <Stat label="Economia estimada" value={`${formatBytes(images.estimatedSavings)} (${savingsShare}%)`} />
+                <Stat label="Superdimensionadas" value={images.oversized} />
+                <Stat label="Sem WebP/AVIF" value={images.legacyFormat} />
+            </div>
+
+            {images.findings.length > 0 && (
+                <ul className="space-y-2">
+                    {images.findings.map((finding, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-sm text-zinc-300">
+                            <AlertTriangle
+                                className={cn(
+                                    'mt-0.5 h-4 w-4 shrink-0',
+                                    finding.severity === 'erro' ? 'text-red-500' : 'text-yellow-500'
+                                )}
+                            />
+                            {finding.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* Imagens com problema */}
+            <div>
+                <h4 className="mb-3 font-medium text-zinc-200">Imagens a otimizar</h4>
+                {images.images.length === 0 ? (
+                    <p className="text-sm text-zinc-500">Nenhuma imagem com problema encontrada.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {images.images.slice(0, 10).map((image) => (
+                            <div
+                                key={image.url}
+                                className="flex items-center justify-between gap-4 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                            >
+                                <div className="min-w-0">
+                                    <p className="truncate text-zinc-300" title={image.url}>{image.url}</p>
+                                    <p className="text-xs text-zinc-500">
+                                        {image.format.toUpperCase()} · {image.natural.width}×{image.natural.height} exibida em{' '}
+                                        {image.rendered.width}×{image.rendered.height}
+                                        {image.aboveTheFold && ' · acima da dobra'}
+                                    </p>
+                                    <div className="mt-1 flex flex-wrap gap-1">
+                                        {image.issues.map((issue) => (
+                                            <span
+                                                key={issue}
+                                                className={cn('rounded px-1.5 py-0.5 text-[10px] font-medium', ISSUE_STYLES[issue])}
+                                            >
+                                                {IMAGE_ISSUE_LABELS[issue]}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="shrink-0 text-right">
+                                    <p className="text-zinc-400">
+                                        {image.transferSize !== null ? formatBytes(image.transferSize) : '—'}
+                                    </p>
+                                    {image.estimatedSavings > 0 && (
+                                        <p className="text-xs text-green-500">-{formatBytes(image.estimatedSavings)}</p>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+    return (
+        <div className="rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3">
+            <p className="text-xs text-zinc-500">{label}</p>
+            <p className="mt-1 text-xl font-bold text-white">{value}</p>
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+import { Gauge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatBytes } from '@/lib/chart-utils';
+import type { LabTimings } from '@/lib/lab-timings';
+import { formatMetricValue, formatMilliseconds, rateMetric, toMetricValue, type MetricRating } from '@/lib/performance-metrics';
+
+interface LabTimingsPanelProps {
+    timings: LabTimings[];
+}
+
+/**
+ * Tempos medidos localmente em cada perfil de rede e CPU, com o screenshot
+ * do que o visitante vê depois de 3 segundos.
+ */
+export function LabTimingsPanel({ timings }: LabTimingsPanelProps) {
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                    <Gauge className="h-5 w-5 text-primary" />
+                    Carregamento por Perfil de Rede e CPU
+                </h3>
+                <p className="text-sm text-zinc-400">
+                    Dados de laboratório medidos localmente, com cache vazio (primeira visita).
+                </p>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+                {timings.map((timing) => (
+                    <div key={timing.label} className="space-y-3 rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-4">
+                        <p className="font-medium text-zinc-200">{timing.label}</p>
+
+                        {timing.error ? (
+                            <p className="text-sm text-red-400">Falha na medição: {timing.error}</p>
+                        ) : (
+                            <>
+                                <div className="grid grid-cols-3 gap-2 text-sm">
+                                    <Metric label="TTFB" value={formatMetricValue(toMetricValue('ttfb', timing.ttfb))} />
+                                    <Metric label="FCP" value={formatMetricValue(toMetricValue('fcp', timing.fcp))} rating={rateMetric('fcp', timing.fcp)} />
+                                    <Metric label="LCP" value={formatMetricValue(toMetricValue('lcp', timing.lcp))} rating={rateMetric('lcp', timing.lcp)} />
+                                    <Metric label="CLS" value={formatMetricValue(toMetricValue('cls', timing.cls))} rating={rateMetric('cls', timing.cls)} />
+                                    <Metric label="TBT" value={formatMetricValue(toMetricValue('tbt', timing.tbt))} rating={rateMetric('tbt', timing.tbt)} />
+                                    <Metric label="Load" value={formatMilliseconds(timing.load)} />
+                                </div>
+                                <p className="text-xs text-zinc-500">{formatBytes(timing.transferBytes)} transferidos</p>
+                            </>
+                        )}
+
+                        {timing.screenshot && (
+                            <div>
+                                <p className="mb-1 text-xs text-zinc-500">Tela após 3 segundos</p>
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img
+                                    src={timing.screenshot}
+                                    alt={`Tela após 3 segundos (${timing.label})`}
+                                    className="max-h-64 rounded-md border border-zinc-800"
+                                />
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function Metric({ label, value, rating }: { label: string; value: string; rating?: MetricRating | null }) {
+    return (
+        <div className="rounded-md border border-zinc-800/50 p-2">
+            <p className="text-xs text-zinc-500">{label}</p>
+            <p
+                className={cn(
+                    'font-semibold',
+                    rating === 'good' ? 'text-green-500' : rating === 'needs-improvement' ? 'text-yellow-500' : rating === 'poor' ? 'text-red-500' : 'text-white'
+                )}
+            >
+                {value}
+            </p>
+        </div>
+    );
+}
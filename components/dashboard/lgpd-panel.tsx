@@ -0,0 +1,135 @@
+import { Cookie, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { LgpdReport } from '@/lib/lgpd-compliance';
+
+interface LgpdPanelProps {
+    lgpd: LgpdReport;
+}
+
+/**
+ * Seção de conformidade com a LGPD: banner de consentimento, rastreadores e cookies
+ * ativos antes de qualquer interação e acesso à política de privacidade.
+ */
+export function LgpdPanel({ lgpd }: LgpdPanelProps) {
+    const trackingCookies = lgpd.cookiesBeforeConsent.filter((cookie) => cookie.tracking);
+
+    const items = [
+        {
+            label: 'Banner de consentimento',
+            ok: lgpd.consentBanner.found,
+            detail: lgpd.consentBanner.found
+                ? `${lgpd.consentBanner.provider || 'Banner próprio'}${lgpd.consentBanner.hasRejectButton ? ' · com opção de recusar' : ' · sem opção de recusar'}`
+                : 'Não encontrado',
+        },
+        {
+            label: 'Meta Pixel antes do consentimento',
+            ok: !lgpd.metaPixel.firedBeforeConsent,
+            detail: lgpd.metaPixel.firedBeforeConsent
+                ? `${lgpd.metaPixel.events} evento(s) disparado(s)`
+                : lgpd.metaPixel.scriptLoaded ? 'Script carregado, sem eventos' : 'Não carregado',
+        },
+        {
+            label: 'Política de privacidade',
+            ok: lgpd.privacyPolicy.reachable,
+            detail: !lgpd.privacyPolicy.found
+                ? 'Link não encontrado'
+                : lgpd.privacyPolicy.reachable
+                    ? lgpd.privacyPolicy.label || lgpd.privacyPolicy.url || ''
+                    : `Inacessível${lgpd.privacyPolicy.status ? ` (HTTP ${lgpd.privacyPolicy.status})` : ''}`,
+        },
+        {
+            label: 'Cookies de rastreamento',
+            ok: trackingCookies.length === 0,
+            detail: `${trackingCookies.length} de ${lgpd.cookiesBeforeConsent.length} cookies antes do consentimento`,
+        },
+    ];
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Cookie className="h-5 w-5 text-primary" />
+                        Conformidade LGPD
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Cookies e rastreadores registrados antes de qualquer interação do visitante.
+                    </p>
+                </div>
+                <span
+                    className={cn(
+                        'shrink-0 rounded-full px-3 py-1 text-xs font-medium',
+                        lgpd.compliant ? 'bg-green-500/10 text-green-500' : 'bg-red-500/10 text-red-500'
+                    )}
+                >
+                    {lgpd.compliant ? 'Sem pendências' : 'Pendências encontradas'}
+                </span>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+                {items.map((item) => (
+                    <div
+                        key={item.label}
+                        className="flex items-start gap-3 rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3"
+                    >
+                        {item.ok ? (
+                            <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-500" />
+                        ) : (
+                            <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                        )}
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium text-zinc-200">{item.label}</p>
+                            <p className="truncate text-xs text-zinc-400" title={item.detail}>{item.detail}</p>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Rastreadores */}
+                <div>
+                    <h4 className="mb-3 font-medium text-zinc-200">Rastreadores antes do consentimento</h4>
+                    {lgpd.trackersBeforeConsent.length === 0 ? (
+                        <p className="text-sm text-zinc-500">Nenhum rastreador carregado.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {lgpd.trackersBeforeConsent.map((tracker) => (
+                                <div
+                                    key={tracker.name}
+                                    className="flex items-center justify-between gap-4 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                                >
+                                    <span className="font-medium text-zinc-300">{tracker.name}</span>
+                                    <span className="text-xs text-zinc-500">
+                                        {tracker.requests} requisições · {(tracker.firstRequestAt / 1000).toFixed(1)}s
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Achados */}
+                <div>
+                    <h4 className="mb-3 font-medium text-zinc-200">Pendências</h4>
+                    {lgpd.findings.length === 0 ? (
+                        <p className="text-sm text-zinc-500">Nenhuma pendência encontrada.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {lgpd.findings.map((finding, idx) => (
+                                <li key={idx} className="flex items-start gap-2 text-sm text-zinc-300">
+                                    <AlertTriangle
+                                        className={cn(
+                                            'mt-0.5 h-4 w-4 shrink-0',
+                                            finding.severity === 'erro' ? 'text-red-500' : 'text-yellow-500'
+                                        )}
+                                    />
+                                    {finding.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { Link2, AlertTriangle, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { LinkCheckReport } from '@/lib/link-checker';
+
+interface LinkCheckPanelProps {
+    links: LinkCheckReport;
+}
+
+/**
+ * Painel da verificação de links.
+ * Mostra os redirecionamentos das variações da URL inicial e os links quebrados, lentos ou em loop.
+ */
+export function LinkCheckPanel({ links }: LinkCheckPanelProps) {
+    const findings = [...links.findings].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'erro' ? -1 : 1));
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                    <Link2 className="h-5 w-5 text-primary" />
+                    Links e Redirecionamentos
+                </h3>
+                <p className="text-sm text-zinc-400">
+                    {links.checked} de {links.totalLinks} links únicos verificados nas páginas analisadas.
+                </p>
+            </div>
+
+            {/* Resumo */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <Stat label="Verificados" value={links.checked} />
+                <Stat label="Quebrados" value={links.broken} alert={links.broken > 0} />
+                <Stat label="Lentos" value={links.slow} alert={links.slow > 0} />
+                <Stat label="Com redirecionamento" value={links.redirected} />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Variações da URL inicial */}
+                <div>
+                    <h4 className="mb-3 font-medium text-zinc-200">Variações da URL inicial</h4>
+                    <div className="space-y-2">
+                        {links.entryPoints.map((entry) => (
+                            <div
+                                key={entry.url}
+                                className="rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                            >
+                                <p className="truncate font-medium text-zinc-300" title={entry.url}>{entry.url}</p>
+                                <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-zinc-500">
+                                    {entry.redirects.map((hop, idx) => (
+                                        <span key={idx} className="flex items-center gap-1">
+                                            {hop.status}
+                                            <ArrowRight className="h-3 w-3" />
+                                        </span>
+                                    ))}
+                                    {entry.status === null ? (
+                                        <span>{entry.loop ? 'Loop de redirecionamento' : entry.error || 'Sem resposta'}</span>
+                                    ) : (
+                                        <span className="truncate" title={entry.finalUrl}>
+                                            {entry.status} {entry.finalUrl}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Problemas */}
+                <div>
+                    <h4 className="mb-3 font-medium text-zinc-200">Problemas encontrados</h4>
+                    {findings.length === 0 ? (
+                        <p className="text-sm text-zinc-500">Nenhum link quebrado, lento ou em loop.</p>
+                    ) : (
+                        <ul className="max-h-96 space-y-2 overflow-y-auto">
+                            {findings.map((finding, idx) => (
+                                <li
+                                    key={idx}
+                                    className="flex items-start gap-2 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                                >
+                                    <AlertTriangle
+                                        className={cn(
+                                            'mt-0.5 h-4 w-4 shrink-0',
+                                            finding.severity === 'erro' ? 'text-red-500' : 'text-yellow-500'
+                                        )}
+                                    />
+                                    <div className="min-w-0">
+                                        <p className="text-zinc-300">{finding.message}</p>
+                                        <p className="truncate text-xs text-zinc-500" title={finding.url}>{finding.url}</p>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value, alert = false }: { label: string; value: number; alert?: boolean }) {
+    return (
+        <div className="rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3">
+            <p className="text-xs text-zinc-500">{label}</p>
+            <p className={cn('mt-1 text-xl font-bold', alert ? 'text-red-500' : 'text-white')}>{value}</p>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { Network, Download } from 'lucide-react';
+import { formatBytes } from '@/lib/chart-utils';
+import type { NetworkReport as NetworkReportData } from '@/lib/network-capture';
+
+interface NetworkReportProps {
+    network: NetworkReportData;
+    harUrl?: string;
+}
+
+/**
+ * Relatório de peso da página: total transferido, recursos mais pesados
+ * e custo (bytes e tempo) de cada domínio de terceiros.
+ */
+export function NetworkReport({ network, harUrl }: NetworkReportProps) {
+    const thirdPartyShare = network.totalBytes > 0
+        ? Math.round((network.thirdPartyBytes / network.totalBytes) * 100)
+        : 0;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Network className="h-5 w-5 text-primary" />
+                        Peso da Página e Terceiros
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Requisições registradas durante o carregamento da página.
+                    </p>
+                </div>
+                {harUrl && (
+                    <a
+                        href={harUrl}
+                        download
+                        className="flex items-center gap-2 rounded-lg border border-zinc-700 px-3 py-2 text-sm text-zinc-300 transition-colors hover:border-zinc-500 hover:text-white"
+                    >
+                        <Download className="h-4 w-4" />
+                        Exportar HAR
+                    </a>
+                )}
+            </div>
+
+            {/* Resumo */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <Stat label="Peso total" value={formatBytes(network.totalBytes)} />
+                <Stat label="Requisições" value={network.totalRequests} />
+                <Stat label="Terceiros" value={formatBytes(network.thirdPartyBytes)} />
+                <Stat label="% de terceiros" value={`${thirdPartyShare}%`} />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Domínios de Terceiros */}
+                <div>
+                    <h4 className="mb-3 font-medium text-zinc-200">Custo por domínio de terceiros</h4>
+                    <div className="space-y-2">
+                        {network.thirdParties.slice(0, 8).map((party) => (
+                            <div
+                                key={party.domain}
+                                className="flex items-center justify-between gap-4 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                            >
+                                <div className="min-w-0">
+                                    <p className="truncate font-medium text-zinc-300">{party.name}</p>
+                                    <p className="text-xs text-zinc-500">
+                                        {party.requests} requisições · {(party.time / 1000).toFixed(1)}s
+                                    </p>
+                                </div>
+                                <span className="shrink-0 text-zinc-400">{formatBytes(party.bytes)}</span>
+                            </div>
+                        ))}
+                        {network.thirdParties.length === 0 && (
+                            <p className="text-sm text-zinc-500">Nenhum recurso de terceiros carregado.</p>
+                        )}
+                    </div>
+                </div>
+
+                {/* Recursos mais pesados */}
+                <div>
+                    <h4 className="mb-3 font-medium text-zinc-200">Recursos mais pesados</h4>
+                    <div className="space-y-2">
+                        {network.heaviest.slice(0, 8).map((request, idx) => (
+                            <div
+                                key={idx}
+                                className="flex items-center justify-between gap-4 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                            >
+                                <div className="min-w-0">
+                                    <p className="truncate text-zinc-300" title={request.url}>{request.url}</p>
+                                    <p className="text-xs text-zinc-500">{request.resourceType}</p>
+                                </div>
+                                <span className="shrink-0 text-zinc-400">{formatBytes(request.transferSize)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+    return (
+        <div className="rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3">
+            <p className="text-xs text-zinc-500">{label}</p>
+            <p className="mt-1 text-xl font-bold text-white">{value}</p>
+        </div>
+    );
+}
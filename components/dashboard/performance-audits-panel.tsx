@@ -0,0 +1,108 @@
+import { ListOrdered } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatBytes } from '@/lib/chart-utils';
+import { formatMilliseconds } from '@/lib/performance-metrics';
+import { PERFORMANCE_AUDIT_KIND_LABELS, type PerformanceAudit, type PerformanceAuditItem } from '@/lib/lighthouse-audits';
+
+interface PerformanceAuditsPanelProps {
+    audits: PerformanceAudit[];
+}
+
+/**
+ * Lista priorizada de correções de performance apontadas pelo Lighthouse (PageSpeed mobile):
+ * oportunidades com economia estimada primeiro, depois os diagnósticos.
+ */
+export function PerformanceAuditsPanel({ audits }: PerformanceAuditsPanelProps) {
+    const opportunityCount = audits.filter((audit) => audit.kind === 'opportunity').length;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <ListOrdered className="h-5 w-5 text-primary" />
+                        Prioridades de Correção de Performance
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Auditorias reprovadas no Lighthouse (mobile), da maior economia estimada para a menor.
+                    </p>
+                </div>
+                <span
+                    className={cn(
+                        'shrink-0 rounded-full px-3 py-1 text-xs font-medium',
+                        opportunityCount > 0 ? 'bg-orange-500/10 text-orange-500' : 'bg-green-500/10 text-green-500'
+                    )}
+                >
+                    {opportunityCount > 0 ? `${opportunityCount} oportunidade(s)` : 'Nenhuma oportunidade'}
+                </span>
+            </div>
+
+            {audits.length === 0 ? (
+                <p className="text-sm text-zinc-500">Nenhuma auditoria reprovada.</p>
+            ) : (
+                <ol className="space-y-3">
+                    {audits.map((audit, idx) => (
+                        <li key={audit.id} className="rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-4">
+                            <div className="flex flex-wrap items-start justify-between gap-2">
+                                <div className="flex min-w-0 items-start gap-3">
+                                    <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-zinc-800 text-xs font-semibold text-zinc-300">
+                                        {idx + 1}
+                                    </span>
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-zinc-200">{audit.title}</p>
+                                        {audit.displayValue && <p className="text-xs text-zinc-400">{audit.displayValue}</p>}
+                                    </div>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                    <span
+                                        className={cn(
+                                            'rounded px-1.5 py-0.5 text-[10px] font-medium',
+                                            audit.kind === 'opportunity' ? 'bg-orange-500/10 text-orange-500' : 'bg-zinc-800 text-zinc-400'
+                                        )}
+                                    >
+                                        {PERFORMANCE_AUDIT_KIND_LABELS[audit.kind]}
+                                    </span>
+                                    {audit.savingsMs > 0 && (
+                                        <span className="rounded bg-green-500/10 px-1.5 py-0.5 text-[10px] font-medium text-green-500">
+                                            -{formatMilliseconds(audit.savingsMs)}
+                                        </span>
+                                    )}
+                                    {audit.savingsBytes > 0 && (
+                                        <span className="rounded bg-green-500/10 px-1.5 py-0.5 text-[10px] font-medium text-green-500">
+                                            -{formatBytes(audit.savingsBytes)}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+
+                            <p className="mt-2 text-xs text-zinc-500">{audit.description}</p>
+
+                            {audit.items.length > 0 && (
+                                <ul className="mt-3 space-y-1">
+                                    {audit.items.slice(0, 5).map((item, itemIdx) => (
+                                        <li key={itemIdx} className="flex items-center justify-between gap-4 text-xs">
+                                            <span className="truncate text-zinc-300" title={item.label}>{item.label}</span>
+                                            <span className="shrink-0 text-zinc-500">{describeItem(item)}</span>
+                                        </li>
+                                    ))}
+                                    {audit.items.length > 5 && (
+                                        <li className="text-xs text-zinc-500">+{audit.items.length - 5} recurso(s)</li>
+                                    )}
+                                </ul>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
+
+function describeItem(item: PerformanceAuditItem): string {
+    const parts: string[] = [];
+    if (item.wastedBytes) parts.push(`${formatBytes(item.wastedBytes)} desperdiçados`);
+    else if (item.totalBytes) parts.push(formatBytes(item.totalBytes));
+    if (item.wastedMs) parts.push(`${formatMilliseconds(item.wastedMs)} de atraso`);
+    if (item.blockingTime) parts.push(`${formatMilliseconds(item.blockingTime)} bloqueando`);
+    return parts.join(' · ');
+}
@@ -12,64 +12,76 @@ import {
 } from 'recharts';
 import { CHART_COLORS, TOOLTIP_STYLE, formatSeconds } from '@/lib/chart-utils';
 import type { PerformanceMetrics } from '@/lib/performance-analyzer';
+import { getMetricValues, type MetricRating, type MetricValue } from '@/lib/performance-metrics';
 
 interface PerformanceChartProps {
-    data: PerformanceMetrics;
+    data: PerformanceMetrics; // Estratégia mobile
+    desktopData?: PerformanceMetrics | null; // Ausente em análises antigas
 }
 
-/**
- * Limites (Thresholds) para Core Web Vitals (em segundos ou unidade adimensional).
- * Baseado nas diretrizes do Google (Good, Needs Improvement, Poor).
- */
-const THRESHOLDS = {
-    fcp: { good: 1.8, poor: 3.0 },
-    lcp: { good: 2.5, poor: 4.0 },
-    tti: { good: 3.8, poor: 7.3 },
-    cls: { good: 0.1, poor: 0.25 },
-    speedIndex: { good: 3.4, poor: 5.8 },
+const RATING_COLORS: Record<MetricRating, string> = {
+    good: CHART_COLORS.success,
+    'needs-improvement': CHART_COLORS.warning,
+    poor: CHART_COLORS.danger,
 };
 
 /**
- * Retorna a cor da barra baseada no valor e na métrica.
+ * Retorna a cor da barra baseada na classificação da métrica (limites em lib/performance-metrics).
  */
-function getMetricColor(metric: string, value: number): string {
-    const limits = THRESHOLDS[metric as keyof typeof THRESHOLDS];
-    if (!limits) return CHART_COLORS.neutral;
+function getMetricColor(metric?: MetricValue): string {
+    return metric?.rating ? RATING_COLORS[metric.rating] : CHART_COLORS.neutral;
+}
 
-    if (value <= limits.good) return CHART_COLORS.success;
-    if (value >= limits.poor) return CHART_COLORS.danger;
-    return CHART_COLORS.warning;
+// O gráfico usa segundos: o modelo guarda ms
+function toSeconds(metric?: MetricValue): number | null {
+    return metric && metric.value !== null ? metric.value / 1000 : null;
 }
 
 /**
  * Gráfico de barras para visualizar as métricas de performance (Core Web Vitals).
- * Mostra FCP, LCP, TTI, CLS e Speed Index com cores indicativas de qualidade.
+ * Mostra FCP, LCP, TTI e Speed Index com cores indicativas de qualidade,
+ * comparando mobile (barra sólida) e desktop (barra clara) quando disponível.
  */
-export function PerformanceChart({ data }: PerformanceChartProps) {
+export function PerformanceChart({ data, desktopData }: PerformanceChartProps) {
+    // Desktop com erro não entra na comparação
+    const desktop = desktopData && !desktopData.error ? desktopData : null;
+    const isLocal = data.source === 'local' || desktop?.source === 'local';
+    const unstable = data.runs?.unstable || desktop?.runs?.unstable;
+    const mobileValues = getMetricValues(data);
+    const desktopValues = desktop ? getMetricValues(desktop) : null;
+
     // Prepara os dados para o Recharts
     const chartData = [
         {
             name: 'FCP',
             fullName: 'First Contentful Paint',
-            value: parseFloat(data.fcp),
+            metric: 'fcp' as const,
+            value: toSeconds(mobileValues.fcp),
+            desktop: toSeconds(desktopValues?.fcp),
             description: 'Tempo até o primeiro conteúdo aparecer.',
         },
         {
             name: 'LCP',
             fullName: 'Largest Contentful Paint',
-            value: parseFloat(data.lcp),
+            metric: 'lcp' as const,
+            value: toSeconds(mobileValues.lcp),
+            desktop: toSeconds(desktopValues?.lcp),
             description: 'Tempo até o maior conteúdo ser renderizado.',
         },
         {
             name: 'TTI',
             fullName: 'Time to Interactive',
-            value: parseFloat(data.tti),
+            metric: 'tti' as const,
+            value: toSeconds(mobileValues.tti),
+            desktop: toSeconds(desktopValues?.tti),
             description: 'Tempo até a página se tornar totalmente interativa.',
         },
         {
             name: 'SI',
             fullName: 'Speed Index',
-            value: parseFloat(data.speedIndex),
+            metric: 'speedIndex' as const,
+            value: toSeconds(mobileValues.speedIndex),
+            desktop: toSeconds(desktopValues?.speedIndex),
             description: 'Velocidade visual de carregamento da página.',
         },
         // CLS é removido daqui pois a escala é muito diferente (0-1 vs 0-10s)
@@ -78,11 +90,35 @@ export function PerformanceChart({ data }: PerformanceChartProps) {
 
     return (
         <div className="h-[350px] w-full rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
-            <div className="mb-6">
-                <h3 className="text-lg font-semibold text-white">Métricas de Velocidade</h3>
-                <p className="text-sm text-zinc-400">
-                    Análise dos Core Web Vitals e tempos de carregamento.
-                </p>
+            <div className="mb-6 flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-white">Métricas de Velocidade</h3>
+                    <p className="text-sm text-zinc-400">
+                        {desktop
+                            ? `Mobile ${data.score}/100 vs. Desktop ${desktop.score}/100.`
+                            : 'Análise dos Core Web Vitals e tempos de carregamento.'}
+                        {data.runs && data.runs.count > 1 && ` Mediana de ${data.runs.count} execuções.`}
+                    </p>
+                </div>
+                <div className="flex shrink-0 flex-col items-end gap-1">
+                    {/* Medição local não é comparável um a um com o PageSpeed: sempre sinalizada */}
+                    {isLocal && (
+                        <span
+                            className="rounded-full bg-yellow-500/10 px-3 py-1 text-xs font-medium text-yellow-500"
+                            title="PageSpeed indisponível: métricas medidas localmente no Chromium (Speed Index estimado)"
+                        >
+                            Dados de laboratório locais
+                        </span>
+                    )}
+                    {unstable && (
+                        <span
+                            className="rounded-full bg-orange-500/10 px-3 py-1 text-xs font-medium text-orange-500"
+                            title={[data.runs?.unstableReason, desktop?.runs?.unstableReason].filter(Boolean).join(' ')}
+                        >
+                            Resultado instável
+                        </span>
+                    )}
+                </div>
             </div>
 
             <ResponsiveContainer width="100%" height="100%">
@@ -111,18 +147,29 @@ export function PerformanceChart({ data }: PerformanceChartProps) {
                     <Tooltip
                         cursor={{ fill: 'rgba(255,255,255,0.05)' }}
                         contentStyle={TOOLTIP_STYLE}
-                        formatter={(value: number) => [formatSeconds(value), 'Tempo']}
+                        formatter={(value: number, name: string) => [formatSeconds(value), name === 'desktop' ? 'Desktop' : desktop ? 'Mobile' : 'Tempo']}
                         labelStyle={{ color: '#E54801', fontWeight: 'bold', marginBottom: '4px' }}
                     />
 
-                    <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={32}>
+                    <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={desktop ? 14 : 32}>
                         {chartData.map((entry, index) => (
                             <Cell
                                 key={`cell-${index}`}
-                                fill={getMetricColor(entry.name === 'SI' ? 'speedIndex' : entry.name.toLowerCase(), entry.value)}
+                                fill={getMetricColor(mobileValues[entry.metric])}
                             />
                         ))}
                     </Bar>
+
+                    {desktop && (
+                        <Bar dataKey="desktop" radius={[0, 4, 4, 0]} barSize={14} fillOpacity={0.45}>
+                            {chartData.map((entry, index) => (
+                                <Cell
+                                    key={`cell-desktop-${index}`}
+                                    fill={getMetricColor(desktopValues?.[entry.metric])}
+                                />
+                            ))}
+                        </Bar>
+                    )}
                 </BarChart>
             </ResponsiveContainer>
 
@@ -140,6 +187,13 @@ export function PerformanceChart({ data }: PerformanceChartProps) {
                     <div className="h-3 w-3 rounded-full bg-red-500" />
                     <span>Ruim</span>
                 </div>
+                {desktop && (
+                    <div className="flex items-center gap-2">
+                        <div className="h-3 w-3 rounded-full bg-zinc-400" />
+                        <div className="-ml-1 h-3 w-3 rounded-full bg-zinc-400/45" />
+                        <span>Mobile / Desktop</span>
+                    </div>
+                )}
             </div>
         </div>
     );
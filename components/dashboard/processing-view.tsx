@@ -11,13 +11,25 @@ interface ProcessingViewProps {
     estimatedTime?: number;
 }
 
+/**
+ * Etapas do processamento, na mesma ordem do worker (app/api/analyze/route.ts).
+ */
+const STEPS = [
+    { label: 'Coleta de Dados (Scraping)' },
+    { label: 'Detecção de Tecnologias' },
+    { label: 'Auditoria de SEO Técnico' },
+    { label: 'Verificação de Links' },
+    { label: 'Análise de Performance' },
+    { label: 'Inteligência Artificial (Gemini)', isAi: true },
+];
+
 /**
  * Componente de visualização de progresso da análise.
  * Exibe barra de progresso, etapas concluídas e estimativa de tempo.
- * Inclui efeitos visuais especiais quando a IA entra em ação (>75%).
+ * Inclui efeitos visuais especiais quando a IA entra em ação (última etapa).
  */
 export function ProcessingView({ progress, estimatedTime }: ProcessingViewProps) {
-    const isAdvancedAI = progress.percentage >= 75;
+    const isAdvancedAI = progress.current >= progress.total - 1;
 
     return (
         <div className="flex min-h-screen flex-col items-center justify-center bg-black px-4 text-center overflow-hidden relative">
@@ -92,24 +104,15 @@ export function ProcessingView({ progress, estimatedTime }: ProcessingViewProps)
 
                 {/* Checklist de Etapas */}
                 <div className="space-y-3 pt-6 text-left bg-zinc-900/50 p-6 rounded-xl border border-zinc-800/50 backdrop-blur-sm">
-                    <StepItem
-                        label="Coleta de Dados (Scraping)"
-                        status={progress.current >= 1 ? 'completed' : 'pending'}
-                    />
-                    <StepItem
-                        label="Detecção de Tecnologias"
-                        status={progress.current >= 2 ? 'completed' : progress.current === 1 ? 'processing' : 'pending'}
-                    />
-                    <StepItem
-                        label="Análise de Performance"
-                        status={progress.current >= 3 ? 'completed' : progress.current === 2 ? 'processing' : 'pending'}
-                    />
-                    <StepItem
-                        label="Inteligência Artificial (Gemini)"
-                        status={progress.current >= 4 ? 'completed' : progress.current === 3 ? 'processing' : 'pending'}
-                        isAi={true}
-                        isActive={isAdvancedAI}
-                    />
+                    {STEPS.map((step, idx) => (
+                        <StepItem
+                            key={step.label}
+                            label={step.label}
+                            status={progress.current > idx ? 'completed' : progress.current === idx ? 'processing' : 'pending'}
+                            isAi={step.isAi}
+                            isActive={step.isAi && isAdvancedAI}
+                        />
+                    ))}
                 </div>
 
                 <p className="text-xs text-zinc-600 pt-4 max-w-xs mx-auto leading-relaxed">
@@ -0,0 +1,110 @@
+import { Lock, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SecurityGrade, SecurityReport } from '@/lib/security-audit';
+
+interface SecurityPanelProps {
+    security: SecurityReport;
+}
+
+const GRADE_COLORS: Record<SecurityGrade, string> = {
+    A: 'border-green-500 text-green-500',
+    B: 'border-lime-500 text-lime-500',
+    C: 'border-yellow-500 text-yellow-500',
+    D: 'border-orange-500 text-orange-500',
+    F: 'border-red-500 text-red-500',
+};
+
+/**
+ * Seção de segurança: nota, certificado TLS, cabeçalhos de segurança e conteúdo misto.
+ */
+export function SecurityPanel({ security }: SecurityPanelProps) {
+    const tls = security.tls;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Lock className="h-5 w-5 text-primary" />
+                        Segurança
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        HTTPS, certificado TLS e cabeçalhos de segurança da página principal.
+                    </p>
+                </div>
+                <div
+                    className={cn(
+                        'flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-4 text-2xl font-bold',
+                        GRADE_COLORS[security.grade]
+                    )}
+                >
+                    {security.grade}
+                </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Certificado e Conteúdo Misto */}
+                <div className="space-y-3">
+                    <div className="rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3 text-sm">
+                        <p className="font-medium text-zinc-200">Certificado TLS</p>
+                        {tls ? (
+                            <>
+                                <p className="text-xs text-zinc-400">{tls.issuer} · {tls.protocol}</p>
+                                <p
+                                    className={cn(
+                                        'mt-1 text-xs',
+                                        tls.daysUntilExpiry <= 30 ? 'font-medium text-red-500' : 'text-zinc-500'
+                                    )}
+                                >
+                                    Válido até {new Date(tls.validTo).toLocaleDateString('pt-BR')} ({tls.daysUntilExpiry} dias)
+                                </p>
+                            </>
+                        ) : (
+                            <p className="text-xs text-red-500">Página sem HTTPS</p>
+                        )}
+                    </div>
+
+                    <div className="rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3 text-sm">
+                        <p className="font-medium text-zinc-200">Conteúdo misto</p>
+                        {security.mixedContent.length === 0 ? (
+                            <p className="text-xs text-zinc-400">Nenhum recurso HTTP em página HTTPS.</p>
+                        ) : (
+                            <ul className="mt-1 space-y-0.5">
+                                {security.mixedContent.slice(0, 5).map((item) => (
+                                    <li key={item.url} className="truncate text-xs text-red-400" title={item.url}>
+                                        {item.resourceType}: {item.url}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                {/* Cabeçalhos */}
+                <div className="space-y-2">
+                    {security.headers.map((check) => (
+                        <div
+                            key={check.header}
+                            className="flex items-start gap-3 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2"
+                            title={check.value || check.recommendation}
+                        >
+                            {check.status === 'ok' ? (
+                                <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-500" />
+                            ) : check.status === 'fraco' ? (
+                                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500" />
+                            ) : (
+                                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                            )}
+                            <div className="min-w-0">
+                                <p className="text-sm font-medium text-zinc-200">{check.label}</p>
+                                <p className="truncate text-xs text-zinc-500">
+                                    {check.status === 'ok' ? check.value : check.recommendation}
+                                </p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
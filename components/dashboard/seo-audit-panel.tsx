@@ -0,0 +1,114 @@
+import { SearchCheck, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getScoreColor } from '@/lib/chart-utils';
+import type { SeoAuditReport } from '@/lib/seo-audit';
+
+interface SeoAuditPanelProps {
+    seo: SeoAuditReport;
+}
+
+/**
+ * Painel da auditoria de SEO técnico.
+ * Mostra o score, o estado do robots.txt e do sitemap e a lista de problemas (erros primeiro).
+ */
+export function SeoAuditPanel({ seo }: SeoAuditPanelProps) {
+    const scoreColor = getScoreColor(seo.score);
+    const issues = [...seo.issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'erro' ? -1 : 1));
+    const errorCount = seo.issues.filter((issue) => issue.severity === 'erro').length;
+
+    const files = [
+        {
+            label: 'robots.txt',
+            ok: seo.robots.found && !seo.robots.disallowAll,
+            detail: !seo.robots.found
+                ? 'Não encontrado'
+                : seo.robots.disallowAll
+                    ? 'Bloqueia todo o site'
+                    : `${seo.robots.sitemaps.length} sitemap(s) declarado(s)`,
+        },
+        {
+            label: 'Sitemap',
+            ok: seo.sitemap.found && seo.sitemap.urlCount > 0,
+            detail: !seo.sitemap.found
+                ? 'Não encontrado'
+                : seo.sitemap.type === 'sitemapindex'
+                    ? `Índice com ${seo.sitemap.urlCount} sitemaps`
+                    : `${seo.sitemap.urlCount} URLs`,
+        },
+    ];
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <SearchCheck className="h-5 w-5 text-primary" />
+                        SEO Técnico
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Indexabilidade de {seo.pagesAudited} página(s): robots.txt, sitemap, canonical, noindex e hreflang.
+                    </p>
+                </div>
+                <div
+                    className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-4 text-lg font-bold"
+                    style={{ borderColor: scoreColor, color: scoreColor }}
+                >
+                    {seo.score}
+                </div>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+                {files.map((file) => (
+                    <div
+                        key={file.label}
+                        className="flex items-start gap-3 rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3"
+                    >
+                        {file.ok ? (
+                            <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-500" />
+                        ) : (
+                            <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                        )}
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium text-zinc-200">{file.label}</p>
+                            <p className="truncate text-xs text-zinc-400">{file.detail}</p>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <h4 className="mb-3 font-medium text-zinc-200">
+                    Problemas encontrados
+                    <span className="ml-2 text-sm font-normal text-zinc-500">
+                        {errorCount} erro(s), {seo.issues.length - errorCount} aviso(s)
+                    </span>
+                </h4>
+                {issues.length === 0 ? (
+                    <p className="text-sm text-zinc-500">Nenhum problema de SEO técnico encontrado.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {issues.map((issue, idx) => (
+                            <li
+                                key={idx}
+                                className="flex items-start gap-2 rounded-md border border-zinc-800/50 bg-zinc-900/50 px-3 py-2 text-sm"
+                            >
+                                <AlertTriangle
+                                    className={cn(
+                                        'mt-0.5 h-4 w-4 shrink-0',
+                                        issue.severity === 'erro' ? 'text-red-500' : 'text-yellow-500'
+                                    )}
+                                />
+                                <div className="min-w-0">
+                                    <p className="text-zinc-300">{issue.message}</p>
+                                    {issue.url && (
+                                        <p className="truncate text-xs text-zinc-500" title={issue.url}>{issue.url}</p>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+import { Braces, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ScrapedData } from '@/lib/scraper';
+import { PAGE_TYPE_LABELS } from '@/lib/page-classifier';
+
+interface StructuredDataPanelProps {
+    pages: Pick<ScrapedData, 'url' | 'pageType' | 'structuredData'>[];
+}
+
+/**
+ * Componente que exibe os dados estruturados (Schema.org) encontrados em cada página analisada.
+ * Destaca entidades inválidas e campos obrigatórios ausentes (preço, moeda, disponibilidade).
+ */
+export function StructuredDataPanel({ pages }: StructuredDataPanelProps) {
+    // Páginas sem relatório (análises antigas) são ignoradas
+    const pagesWithData = pages.filter((page) => page.structuredData);
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                    <Braces className="h-5 w-5 text-primary" />
+                    Dados Estruturados
+                </h3>
+                <p className="text-sm text-zinc-400">
+                    Schema.org (JSON-LD e microdata) usado pelo Google para rich results e Google Shopping.
+                </p>
+            </div>
+
+            <div className="space-y-4">
+                {pagesWithData.map((page) => {
+                    const report = page.structuredData!;
+
+                    return (
+                        <div key={page.url} className="rounded-xl border border-zinc-800 bg-zinc-900/30 p-4">
+                            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                                <div className="min-w-0">
+                                    <span className="text-xs font-medium uppercase text-zinc-500">
+                                        {PAGE_TYPE_LABELS[page.pageType]}
+                                    </span>
+                                    <p className="truncate text-sm text-zinc-300" title={page.url}>{page.url}</p>
+                                </div>
+                                <span
+                                    className={cn(
+                                        'rounded-full px-2 py-0.5 text-xs font-medium',
+                                        report.eligibleForRichResults
+                                            ? 'bg-green-500/10 text-green-500'
+                                            : 'bg-zinc-500/10 text-zinc-500'
+                                    )}
+                                >
+                                    {report.eligibleForRichResults ? 'Elegível a rich results' : 'Sem rich results de produto'}
+                                </span>
+                            </div>
+
+                            {report.entities.length === 0 ? (
+                                <p className="text-sm text-zinc-500">Nenhum schema de e-commerce encontrado.</p>
+                            ) : (
+                                <div className="flex flex-wrap gap-2">
+                                    {report.entities.map((entity, idx) => (
+                                        <span
+                                            key={idx}
+                                            className={cn(
+                                                'flex items-center gap-1 rounded-md border px-2 py-1 text-xs',
+                                                entity.valid
+                                                    ? 'border-green-500/20 text-green-500'
+                                                    : 'border-red-500/20 text-red-500'
+                                            )}
+                                            title={entity.missingRequired.join(', ')}
+                                        >
+                                            {entity.valid ? <CheckCircle2 className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                                            {entity.type}
+                                            <span className="text-zinc-500">({entity.source})</span>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+
+                            {report.issues.length > 0 && (
+                                <ul className="mt-3 space-y-1">
+                                    {report.issues.map((issue, idx) => (
+                                        <li key={idx} className="flex items-start gap-2 text-xs text-zinc-400">
+                                            <AlertTriangle
+                                                className={cn(
+                                                    'mt-0.5 h-3 w-3 shrink-0',
+                                                    issue.severity === 'erro' ? 'text-red-500' : 'text-yellow-500'
+                                                )}
+                                            />
+                                            {issue.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
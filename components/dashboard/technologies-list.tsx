@@ -1,6 +1,7 @@
-import { Layers, ShoppingCart, BarChart3, Code2, Server, Globe, Tag } from 'lucide-react';
+import { Layers, ShoppingCart, BarChart3, Code2, Server, Globe, Tag, CreditCard, MessageCircle, Tags, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { DetectedTechnology } from '@/lib/technology-detector';
+import { TECHNOLOGY_RISK_LABELS } from '@/lib/technology-risks';
 
 interface TechnologiesListProps {
     technologies: DetectedTechnology[];
@@ -16,6 +17,9 @@ const CATEGORY_STYLES: Record<string, { icon: any; color: string; bg: string }>
     'JavaScript Frameworks': { icon: Code2, color: 'text-yellow-500', bg: 'bg-yellow-500/10' },
     'Web Server': { icon: Server, color: 'text-cyan-500', bg: 'bg-cyan-500/10' },
     'CDN': { icon: Globe, color: 'text-orange-500', bg: 'bg-orange-500/10' },
+    'Payment': { icon: CreditCard, color: 'text-emerald-500', bg: 'bg-emerald-500/10' },
+    'Tag Managers': { icon: Tags, color: 'text-pink-500', bg: 'bg-pink-500/10' },
+    'Live Chat': { icon: MessageCircle, color: 'text-sky-500', bg: 'bg-sky-500/10' },
     'default': { icon: Tag, color: 'text-zinc-500', bg: 'bg-zinc-500/10' },
 };
 
@@ -44,6 +48,8 @@ export function TechnologiesList({ technologies }: TechnologiesListProps) {
         return acc;
     }, {} as Record<string, DetectedTechnology[]>);
 
+    const atRiskCount = technologies.filter((tech) => tech.risks && tech.risks.length > 0).length;
+
     return (
         <div className="space-y-6">
             <div className="mb-4">
@@ -53,6 +59,15 @@ export function TechnologiesList({ technologies }: TechnologiesListProps) {
                 </p>
             </div>
 
+            {atRiskCount > 0 && (
+                <div className="flex items-center gap-3 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {atRiskCount === 1
+                        ? '1 componente usa uma versão sem suporte ou com vulnerabilidades conhecidas.'
+                        : `${atRiskCount} componentes usam versões sem suporte ou com vulnerabilidades conhecidas.`}
+                </div>
+            )}
+
             <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
                 {Object.entries(groupedTechnologies).map(([category, techs]) => {
                     const style = getCategoryStyle(category);
@@ -71,19 +86,51 @@ export function TechnologiesList({ technologies }: TechnologiesListProps) {
                             </div>
 
                             <div className="space-y-2">
-                                {techs.map((tech) => (
-                                    <div
-                                        key={tech.name}
-                                        className="flex items-center justify-between rounded-md bg-zinc-900/50 px-3 py-2 text-sm border border-zinc-800/50"
-                                    >
-                                        <span className="font-medium text-zinc-300">{tech.name}</span>
-                                        {tech.version && (
-                                            <span className="rounded-full bg-zinc-800 px-2 py-0.5 text-xs text-zinc-500">
-                                                v{tech.version}
-                                            </span>
-                                        )}
-                                    </div>
-                                ))}
+                                {techs.map((tech) => {
+                                    const risks = tech.risks || [];
+                                    const vulnerable = risks.some((risk) => risk.type === 'vulnerable');
+
+                                    return (
+                                        <div
+                                            key={tech.name}
+                                            className={cn(
+                                                "rounded-md bg-zinc-900/50 px-3 py-2 text-sm border",
+                                                risks.length === 0 && "border-zinc-800/50",
+                                                risks.length > 0 && (vulnerable ? "border-red-500/40" : "border-yellow-500/40")
+                                            )}
+                                        >
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium text-zinc-300" title={tech.evidence?.join('\n')}>
+                                                    {tech.name}
+                                                </span>
+                                                <div className="flex items-center gap-1">
+                                                    {risks.length > 0 && (
+                                                        <span
+                                                            className={cn(
+                                                                "flex items-center gap-1 rounded-full px-2 py-0.5 text-xs",
+                                                                vulnerable ? "bg-red-500/10 text-red-400" : "bg-yellow-500/10 text-yellow-400"
+                                                            )}
+                                                        >
+                                                            <AlertTriangle className="h-3 w-3" />
+                                                            {TECHNOLOGY_RISK_LABELS[vulnerable ? 'vulnerable' : 'eol']}
+                                                        </span>
+                                                    )}
+                                                    {tech.version && (
+                                                        <span className="rounded-full bg-zinc-800 px-2 py-0.5 text-xs text-zinc-500">
+                                                            v{tech.version}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            {risks.map((risk, idx) => (
+                                                <p key={idx} className="mt-1 text-xs text-zinc-500">
+                                                    {risk.summary}
+                                                    {risk.ids.length > 0 && ` (${risk.ids.join(', ')})`}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    );
+                                })}
                             </div>
                         </div>
                     );
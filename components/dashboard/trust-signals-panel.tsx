@@ -0,0 +1,97 @@
+import { ShieldCheck, CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getScoreColor } from '@/lib/chart-utils';
+import type { TrustSignalsReport } from '@/lib/trust-signals';
+
+interface TrustSignalsPanelProps {
+    trust: TrustSignalsReport;
+}
+
+/**
+ * Painel de confiança e prova social.
+ * Lista widgets de avaliação, selos e dados da empresa encontrados (ou ausentes) na página.
+ */
+export function TrustSignalsPanel({ trust }: TrustSignalsPanelProps) {
+    const scoreColor = getScoreColor(trust.score);
+
+    const items = [
+        {
+            label: 'Widget de avaliações',
+            ok: trust.reviewWidgets.length > 0,
+            detail: trust.reviewWidgets.map((widget) => widget.name).join(', ') || 'Trustvox, Yotpo, Lojas Confiáveis...',
+        },
+        {
+            label: 'Selo Reclame Aqui',
+            ok: !!trust.reclameAqui,
+            detail: trust.reclameAqui ? 'Selo encontrado' : 'Não encontrado',
+        },
+        {
+            label: 'Selos de segurança',
+            ok: trust.securitySeals.length > 0,
+            detail: trust.securitySeals.map((seal) => seal.name).join(', ') || 'Nenhum selo visível',
+        },
+        {
+            label: 'CNPJ no rodapé',
+            ok: !!trust.footer.cnpj,
+            detail: trust.footer.cnpj || 'Não encontrado',
+        },
+        {
+            label: 'Endereço no rodapé',
+            ok: !!trust.footer.address,
+            detail: trust.footer.address || 'Não encontrado',
+        },
+        {
+            label: 'Política de trocas',
+            ok: trust.policyPages.length > 0,
+            detail: trust.policyPages[0]?.label || trust.policyPages[0]?.url || 'Link não encontrado',
+        },
+        {
+            label: 'Estrelas nos produtos',
+            ok: trust.productRatings.cardsWithRating > 0,
+            detail: `${trust.productRatings.cardsWithRating} de ${trust.productRatings.productCards} cards`,
+        },
+    ];
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <ShieldCheck className="h-5 w-5 text-primary" />
+                        Confiança e Prova Social
+                    </h3>
+                    <p className="text-sm text-zinc-400">
+                        Elementos que reduzem a insegurança do comprador na primeira visita.
+                    </p>
+                </div>
+                <div
+                    className="flex h-14 w-14 shrink-0 items-center justify-center rounded-full border-4 text-lg font-bold"
+                    style={{ borderColor: scoreColor, color: scoreColor }}
+                >
+                    {trust.score}
+                </div>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+                {items.map((item) => (
+                    <div
+                        key={item.label}
+                        className="flex items-start gap-3 rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3"
+                    >
+                        {item.ok ? (
+                            <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-500" />
+                        ) : (
+                            <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                        )}
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium text-zinc-200">{item.label}</p>
+                            <p className={cn('truncate text-xs', item.ok ? 'text-zinc-400' : 'text-zinc-500')} title={item.detail}>
+                                {item.detail}
+                            </p>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import { Monitor, Smartphone, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { ViewportComparison as ViewportComparisonData } from '@/lib/mobile-emulation';
+
+interface ViewportComparisonProps {
+    desktopScreenshot: string;
+    comparison: ViewportComparisonData;
+}
+
+/**
+ * Componente que compara as versões desktop e mobile da página.
+ * Exibe os dois screenshots lado a lado e as diferenças encontradas (elementos ocultos, menu, H1).
+ */
+export function ViewportComparison({ desktopScreenshot, comparison }: ViewportComparisonProps) {
+    const { mobile, differences } = comparison;
+
+    return (
+        <div className="space-y-6 rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+            <div>
+                <h3 className="text-lg font-semibold text-white">Desktop x Mobile</h3>
+                <p className="text-sm text-zinc-400">
+                    Comparação da página renderizada no desktop e com emulação de {mobile.device}.
+                </p>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-[2fr_1fr_2fr]">
+                {/* Screenshot Desktop */}
+                <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm text-zinc-400">
+                        <Monitor className="h-4 w-4" />
+                        Desktop
+                    </div>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                        src={desktopScreenshot}
+                        alt="Screenshot da versão desktop"
+                        className="w-full rounded-lg border border-zinc-800"
+                    />
+                </div>
+
+                {/* Screenshot Mobile */}
+                <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm text-zinc-400">
+                        <Smartphone className="h-4 w-4" />
+                        Mobile
+                    </div>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                        src={mobile.screenshot}
+                        alt="Screenshot da versão mobile"
+                        className="mx-auto max-h-[480px] rounded-lg border border-zinc-800"
+                    />
+                </div>
+
+                {/* Diferenças */}
+                <div className="space-y-3">
+                    <h4 className="font-medium text-zinc-200">Diferenças encontradas</h4>
+                    {differences.length === 0 ? (
+                        <div className="flex items-center gap-2 rounded-lg border border-green-500/10 bg-green-500/5 p-3 text-sm text-green-500">
+                            <CheckCircle2 className="h-4 w-4 shrink-0" />
+                            Os elementos-chave se mantêm na versão mobile.
+                        </div>
+                    ) : (
+                        differences.map((difference, idx) => (
+                            <div
+                                key={idx}
+                                className="flex items-start gap-3 rounded-lg border border-zinc-800/50 bg-zinc-900/50 p-3 text-sm text-zinc-300"
+                            >
+                                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500" />
+                                {difference.description}
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
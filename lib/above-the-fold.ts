@@ -0,0 +1,213 @@
+import type { Page } from 'puppeteer';
+import { injectColorHelpers, type ColorHelpersWindow } from './color-contrast';
+
+/**
+ * Análise da primeira dobra (o que aparece no screenshot sem rolar a página):
+ * CTA principal, busca, proposta de valor, banners e ícone do carrinho, com posição,
+ * tamanho e contraste de cada elemento.
+ */
+
+export type FoldElementRole = 'cta' | 'search' | 'value-proposition' | 'banner' | 'cart';
+
+export interface FoldBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface FoldElement {
+    role: FoldElementRole;
+    label: string;
+    box: FoldBox; // Pixels em relação ao viewport (mesma escala do screenshot)
+    areaShare: number; // % da área da dobra ocupada
+    contrast: number | null; // Contraste do texto com o fundo do elemento
+    backgroundContrast: number | null; // Destaque do elemento em relação ao fundo ao redor (CTA)
+    fontSize: number | null;
+}
+
+export interface AboveTheFoldReport {
+    viewport: { width: number; height: number };
+    elements: FoldElement[];
+    findings: { severity: 'erro' | 'aviso'; message: string }[];
+}
+
+export const FOLD_ROLE_LABELS: Record<FoldElementRole, string> = {
+    'cta': 'CTA principal',
+    'search': 'Busca',
+    'value-proposition': 'Proposta de valor',
+    'banner': 'Banner',
+    'cart': 'Carrinho',
+};
+
+// CTA com altura menor que isso é difícil de tocar/clicar (referência: 44px do WCAG 2.5.5)
+const MIN_CTA_HEIGHT = 44;
+
+// Contraste mínimo do texto do CTA (WCAG AA) e destaque mínimo do botão em relação ao fundo
+const MIN_TEXT_CONTRAST = 4.5;
+const MIN_BACKGROUND_CONTRAST = 3;
+
+// Banners que somados ocupam mais que isso da dobra empurram o conteúdo comercial para baixo
+const MAX_BANNER_SHARE = 60;
+
+const MAX_BANNERS = 3;
+
+/**
+ * Identifica os elementos da primeira dobra. Deve rodar antes de qualquer rolagem ou interação,
+ * para que as posições coincidam com o screenshot.
+ */
+export async function analyzeAboveTheFold(page: Page): Promise<AboveTheFoldReport> {
+    await injectColorHelpers(page);
+    const collected = await page.evaluate(collectFoldElements, MAX_BANNERS);
+    const viewportArea = collected.viewport.width * collected.viewport.height;
+
+    const elements: FoldElement[] = collected.elements.map((element) => ({
+        ...element,
+        areaShare: viewportArea > 0 ? Math.round((element.box.width * element.box.height / viewportArea) * 1000) / 10 : 0,
+    }));
+
+    const findings: AboveTheFoldReport['findings'] = [];
+    const cta = elements.find((element) => element.role === 'cta');
+    if (!cta) {
+        findings.push({ severity: 'erro', message: 'Nenhum CTA (comprar, ver ofertas, confira) visível sem rolar a página.' });
+    } else {
+        if (cta.box.height < MIN_CTA_HEIGHT) {
+            findings.push({ severity: 'aviso', message: `O CTA principal tem ${cta.box.height}px de altura (recomendado: ${MIN_CTA_HEIGHT}px ou mais).` });
+        }
+        if (cta.contrast !== null && cta.contrast < MIN_TEXT_CONTRAST) {
+            findings.push({ severity: 'aviso', message: `O texto do CTA principal tem contraste ${cta.contrast}:1 (mínimo ${MIN_TEXT_CONTRAST}:1).` });
+        }
+        if (cta.backgroundContrast !== null && cta.backgroundContrast < MIN_BACKGROUND_CONTRAST) {
+            findings.push({ severity: 'aviso', message: `O CTA principal se destaca pouco do fundo (${cta.backgroundContrast}:1).` });
+        }
+    }
+    if (!elements.some((element) => element.role === 'search')) {
+        findings.push({ severity: 'aviso', message: 'Campo de busca não visível na primeira dobra.' });
+    }
+    if (!elements.some((element) => element.role === 'cart')) {
+        findings.push({ severity: 'aviso', message: 'Ícone do carrinho não visível na primeira dobra.' });
+    }
+    if (!elements.some((element) => element.role === 'value-proposition')) {
+        findings.push({ severity: 'aviso', message: 'Nenhum título ou proposta de valor em texto na primeira dobra (apenas imagens).' });
+    }
+    const bannerShare = elements.filter((element) => element.role === 'banner').reduce((sum, element) => sum + element.areaShare, 0);
+    if (bannerShare > MAX_BANNER_SHARE) {
+        findings.push({ severity: 'aviso', message: `Banners ocupam ${Math.round(bannerShare)}% da primeira dobra.` });
+    }
+
+    return { viewport: collected.viewport, elements, findings };
+}
+
+/**
+ * Executada no contexto da página (não pode referenciar nada de fora da função, exceto as funções de cor instaladas em window).
+ */
+function collectFoldElements(maxBanners: number) {
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+
+    const isVisible = (el: Element) => {
+        const style = window.getComputedStyle(el);
+        return el.getClientRects().length > 0 && style.visibility !== 'hidden' && style.display !== 'none' && parseFloat(style.opacity) > 0;
+    };
+
+    // Caixa recortada ao viewport; null quando o elemento está fora da dobra
+    const foldBox = (el: Element) => {
+        const rect = el.getBoundingClientRect();
+        const x = Math.max(0, rect.left);
+        const y = Math.max(0, rect.top);
+        const width = Math.min(viewport.width, rect.right) - x;
+        const height = Math.min(viewport.height, rect.bottom) - y;
+        if (width <= 0 || height <= 0) return null;
+        return { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+    };
+
+    const getText = (el: Element) => ((el as HTMLElement).innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label') || el.getAttribute('placeholder') || '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    const { parseColor, luminance, blend, backgroundOf } = (window as unknown as ColorHelpersWindow).__colorHelpers;
+    const ratio = (a: { r: number; g: number; b: number }, b: { r: number; g: number; b: number }) => {
+        const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+        return Math.round(((light + 0.05) / (dark + 0.05)) * 100) / 100;
+    };
+    const textContrast = (el: Element) => {
+        const foreground = parseColor(window.getComputedStyle(el).color);
+        const background = backgroundOf(el);
+        return foreground && background ? ratio(blend(foreground, background), background) : null;
+    };
+
+    const elements: {
+        role: 'cta' | 'search' | 'value-proposition' | 'banner' | 'cart';
+        label: string;
+        box: { x: number; y: number; width: number; height: number };
+        contrast: number | null;
+        backgroundContrast: number | null;
+        fontSize: number | null;
+    }[] = [];
+
+    const add = (role: typeof elements[number]['role'], el: Element, box: { x: number; y: number; width: number; height: number }, extra: { backgroundContrast?: number | null } = {}) => {
+        elements.push({
+            role,
+            label: getText(el).slice(0, 80) || el.getAttribute('alt') || el.tagName.toLowerCase(),
+            box,
+            contrast: role === 'banner' ? null : textContrast(el),
+            backgroundContrast: extra.backgroundContrast ?? null,
+            fontSize: role === 'banner' ? null : parseFloat(window.getComputedStyle(el).fontSize) || null,
+        });
+    };
+
+    // 1. CTA principal: botão/link com texto de ação; vence o maior e mais destacado
+    const ctaPattern = /comprar|compre|adicionar (ao|à) (carrinho|sacola)|ver (ofertas?|produtos?|mais|cole[cç][aã]o)|confira|aproveite|garanta|quero|shop now|buy|saiba mais|eu quero/i;
+    const ctaCandidates = Array.from(document.querySelectorAll('button, a, input[type="submit"], input[type="button"], [role="button"]'))
+        .filter((el) => isVisible(el) && !el.closest('nav, header [class*="menu" i]'))
+        .map((el) => ({ el, box: foldBox(el), text: getText(el) }))
+        .filter((item): item is { el: Element; box: { x: number; y: number; width: number; height: number }; text: string } =>
+            !!item.box && item.text.length > 0 && item.text.length < 40 && ctaPattern.test(item.text));
+    const ctaScore = (item: typeof ctaCandidates[number]) => {
+        const background = backgroundOf(item.el);
+        const surroundings = backgroundOf(item.el.parentElement);
+        const prominence = background && surroundings ? ratio(background, surroundings) : 1;
+        return item.box.width * item.box.height * prominence;
+    };
+    const cta = ctaCandidates.sort((a, b) => ctaScore(b) - ctaScore(a))[0];
+    if (cta) {
+        const background = backgroundOf(cta.el);
+        const surroundings = backgroundOf(cta.el.parentElement);
+        add('cta', cta.el, cta.box, { backgroundContrast: background && surroundings ? ratio(background, surroundings) : null });
+    }
+
+    // 2. Busca
+    const search = Array.from(document.querySelectorAll('input[type="search"], [role="search"] input, input[name="q"], input[name="ft"], input[name="s"], input[placeholder*="busca" i], input[placeholder*="procur" i], input[placeholder*="search" i]'))
+        .find((el) => isVisible(el) && foldBox(el));
+    if (search) add('search', search, foldBox(search)!);
+
+    // 3. Proposta de valor: h1 visível ou, na falta dele, o maior texto da dobra fora do menu
+    const headings = Array.from(document.querySelectorAll('h1, h2, [class*="title" i], [class*="headline" i], p'))
+        .filter((el) => isVisible(el) && !el.closest('nav, header, footer') && getText(el).length >= 10 && getText(el).length <= 200 && foldBox(el));
+    const valueProposition = headings.find((el) => el.tagName === 'H1')
+        || headings.sort((a, b) => parseFloat(window.getComputedStyle(b).fontSize) - parseFloat(window.getComputedStyle(a).fontSize))[0];
+    if (valueProposition) add('value-proposition', valueProposition, foldBox(valueProposition)!);
+
+    // 4. Banners: imagens/carrosséis largos na dobra
+    const banners = Array.from(document.querySelectorAll('img, picture, video, [class*="banner" i], [class*="slider" i], [class*="carousel" i], [class*="hero" i]'))
+        .filter(isVisible)
+        .map((el) => ({ el, box: foldBox(el) }))
+        .filter((item): item is { el: Element; box: { x: number; y: number; width: number; height: number } } =>
+            !!item.box && item.box.width >= viewport.width * 0.5 && item.box.height >= 150);
+    // Remove banners contidos em outro já escolhido (ex: img dentro do slider)
+    const chosen: typeof banners = [];
+    banners
+        .sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height)
+        .forEach((item) => {
+            if (chosen.length >= maxBanners) return;
+            if (chosen.some((other) => other.el.contains(item.el) || item.el.contains(other.el))) return;
+            chosen.push(item);
+        });
+    chosen.forEach((item) => add('banner', item.el, item.box));
+
+    // 5. Ícone do carrinho
+    const cart = Array.from(document.querySelectorAll('a[href*="cart"], a[href*="carrinho"], a[href*="sacola"], [class*="minicart" i], [class*="cart-icon" i], [class*="header-cart" i], [aria-label*="carrinho" i], [aria-label*="cart" i]'))
+        .find((el) => isVisible(el) && foldBox(el));
+    if (cart) add('cart', cart, foldBox(cart)!);
+
+    return { viewport, elements };
+}
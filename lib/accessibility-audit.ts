@@ -0,0 +1,343 @@
+import type { Page } from 'puppeteer';
+import { injectColorHelpers, type ColorHelpersWindow } from './color-contrast';
+
+/**
+ * Auditoria de acessibilidade com verificações no estilo axe-core executadas na página:
+ * contraste, rótulos de formulário, nomes de botões e links, landmarks, ordem de headings,
+ * idioma e foco. Os resultados são agrupados por critério WCAG e severidade.
+ */
+
+export type AccessibilityImpact = 'crítico' | 'sério' | 'moderado' | 'menor';
+
+export type AccessibilityRuleId =
+    | 'color-contrast'
+    | 'image-alt'
+    | 'label'
+    | 'button-name'
+    | 'link-name'
+    | 'landmark-main'
+    | 'page-has-heading-one'
+    | 'heading-order'
+    | 'html-lang'
+    | 'tabindex'
+    | 'click-not-focusable'
+    | 'aria-hidden-focus'
+    | 'focus-visible';
+
+export interface AccessibilityNode {
+    selector: string;
+    snippet: string; // Trecho do HTML (limitado)
+    detail?: string; // Ex: contraste calculado
+}
+
+export interface AccessibilityViolation {
+    ruleId: AccessibilityRuleId;
+    description: string;
+    wcag: string; // Critério de sucesso (ex: 1.4.3)
+    wcagName: string;
+    level: 'A' | 'AA';
+    impact: AccessibilityImpact;
+    count: number;
+    nodes: AccessibilityNode[]; // Exemplos (até MAX_NODES)
+}
+
+export interface AccessibilityReport {
+    score: number; // 0-100
+    violations: AccessibilityViolation[];
+    passes: AccessibilityRuleId[]; // Regras verificadas sem violações
+    byImpact: Record<AccessibilityImpact, number>; // Quantidade de elementos afetados por severidade
+}
+
+interface RuleDefinition {
+    description: string;
+    wcag: string;
+    wcagName: string;
+    level: 'A' | 'AA';
+    impact: AccessibilityImpact;
+}
+
+/**
+ * Metadados das regras. A detecção acontece no navegador, em runAccessibilityChecks.
+ */
+export const ACCESSIBILITY_RULES: Record<AccessibilityRuleId, RuleDefinition> = {
+    'color-contrast': {
+        description: 'Texto com contraste insuficiente em relação ao fundo',
+        wcag: '1.4.3', wcagName: 'Contraste (Mínimo)', level: 'AA', impact: 'sério',
+    },
+    'image-alt': {
+        description: 'Imagem sem atributo alt',
+        wcag: '1.1.1', wcagName: 'Conteúdo Não Textual', level: 'A', impact: 'crítico',
+    },
+    'label': {
+        description: 'Campo de formulário sem rótulo associado',
+        wcag: '1.3.1', wcagName: 'Informações e Relações', level: 'A', impact: 'crítico',
+    },
+    'button-name': {
+        description: 'Botão sem nome acessível',
+        wcag: '4.1.2', wcagName: 'Nome, Função, Valor', level: 'A', impact: 'crítico',
+    },
+    'link-name': {
+        description: 'Link sem texto ou nome acessível',
+        wcag: '2.4.4', wcagName: 'Finalidade do Link (Em Contexto)', level: 'A', impact: 'sério',
+    },
+    'landmark-main': {
+        description: 'Página sem landmark principal (<main>) ou com mais de um',
+        wcag: '1.3.1', wcagName: 'Informações e Relações', level: 'A', impact: 'moderado',
+    },
+    'page-has-heading-one': {
+        description: 'Página sem heading de nível 1',
+        wcag: '1.3.1', wcagName: 'Informações e Relações', level: 'A', impact: 'moderado',
+    },
+    'heading-order': {
+        description: 'Níveis de heading pulados (ex: H2 seguido de H4)',
+        wcag: '1.3.1', wcagName: 'Informações e Relações', level: 'A', impact: 'moderado',
+    },
+    'html-lang': {
+        description: 'Elemento <html> sem atributo lang válido',
+        wcag: '3.1.1', wcagName: 'Idioma da Página', level: 'A', impact: 'sério',
+    },
+    'tabindex': {
+        description: 'Elemento com tabindex positivo altera a ordem de foco',
+        wcag: '2.4.3', wcagName: 'Ordem do Foco', level: 'A', impact: 'sério',
+    },
+    'click-not-focusable': {
+        description: 'Elemento clicável que não recebe foco pelo teclado',
+        wcag: '2.1.1', wcagName: 'Teclado', level: 'A', impact: 'sério',
+    },
+    'aria-hidden-focus': {
+        description: 'Elemento focável dentro de aria-hidden="true"',
+        wcag: '4.1.2', wcagName: 'Nome, Função, Valor', level: 'A', impact: 'sério',
+    },
+    'focus-visible': {
+        description: 'Elemento focável sem indicador visual de foco',
+        wcag: '2.4.7', wcagName: 'Foco Visível', level: 'AA', impact: 'moderado',
+    },
+};
+
+// Penalidade no score por regra violada, de acordo com a severidade
+const IMPACT_PENALTY: Record<AccessibilityImpact, number> = { 'crítico': 15, 'sério': 10, 'moderado': 5, 'menor': 2 };
+
+// Exemplos guardados por regra
+const MAX_NODES = 5;
+
+// Elementos focáveis testados na verificação de foco visível
+const MAX_FOCUS_SAMPLES = 20;
+
+// Espera máxima (ms) pela transição do estilo de foco de cada elemento
+const MAX_TRANSITION_WAIT = 500;
+
+/**
+ * Executa a auditoria de acessibilidade na página carregada.
+ */
+export async function auditAccessibility(page: Page): Promise<AccessibilityReport> {
+    await injectColorHelpers(page);
+    const found = await page.evaluate(runAccessibilityChecks, MAX_NODES, MAX_FOCUS_SAMPLES, MAX_TRANSITION_WAIT);
+
+    const violations: AccessibilityViolation[] = [];
+    const passes: AccessibilityRuleId[] = [];
+    const byImpact: Record<AccessibilityImpact, number> = { 'crítico': 0, 'sério': 0, 'moderado': 0, 'menor': 0 };
+
+    (Object.keys(ACCESSIBILITY_RULES) as AccessibilityRuleId[]).forEach((ruleId) => {
+        const result = found[ruleId];
+        if (!result || result.count === 0) {
+            passes.push(ruleId);
+            return;
+        }
+        const rule = ACCESSIBILITY_RULES[ruleId];
+        byImpact[rule.impact] += result.count;
+        violations.push({ ruleId, ...rule, count: result.count, nodes: result.nodes });
+    });
+
+    const penalty = violations.reduce((sum, violation) => sum + IMPACT_PENALTY[violation.impact], 0);
+
+    return {
+        score: Math.max(0, 100 - penalty),
+        violations: violations.sort((a, b) => IMPACT_PENALTY[b.impact] - IMPACT_PENALTY[a.impact]),
+        passes,
+        byImpact,
+    };
+}
+
+/**
+ * Agrupa as violações por critério WCAG (ex: 1.3.1 reúne rótulos, landmarks e headings).
+ */
+export function groupViolationsByCriterion(violations: AccessibilityViolation[]) {
+    const groups = new Map<string, { wcag: string; wcagName: string; level: 'A' | 'AA'; violations: AccessibilityViolation[] }>();
+    violations.forEach((violation) => {
+        const group = groups.get(violation.wcag) || {
+            wcag: violation.wcag,
+            wcagName: violation.wcagName,
+            level: violation.level,
+            violations: [],
+        };
+        group.violations.push(violation);
+        groups.set(violation.wcag, group);
+    });
+    return Array.from(groups.values()).sort((a, b) => a.wcag.localeCompare(b.wcag, undefined, { numeric: true }));
+}
+
+/**
+ * Verificações executadas no contexto da página (precisa ser autocontida; as funções de cor vêm de window).
+ */
+async function runAccessibilityChecks(maxNodes: number, maxFocusSamples: number, maxTransitionWait: number) {
+    const results: Record<string, { count: number; nodes: { selector: string; snippet: string; detail?: string }[] }> = {};
+
+    const describe = (el: Element) => {
+        const id = el.id ? `#${el.id}` : '';
+        const classes = Array.from(el.classList).slice(0, 2).map((name) => `.${name}`).join('');
+        return `${el.tagName.toLowerCase()}${id || classes}`;
+    };
+
+    const report = (ruleId: string, el: Element, detail?: string) => {
+        const result = results[ruleId] || { count: 0, nodes: [] };
+        result.count++;
+        if (result.nodes.length < maxNodes) {
+            result.nodes.push({ selector: describe(el), snippet: el.outerHTML.slice(0, 150), detail });
+        }
+        results[ruleId] = result;
+    };
+
+    const isVisible = (el: Element) => {
+        const style = window.getComputedStyle(el);
+        return el.getClientRects().length > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+    };
+
+    // Nome acessível simplificado (aria-labelledby, aria-label, texto, title, alt de imagens internas)
+    const accessibleName = (el: Element): string => {
+        const labelledBy = el.getAttribute('aria-labelledby');
+        if (labelledBy) {
+            const text = labelledBy.split(/\s+/)
+                .map((id) => document.getElementById(id)?.textContent || '')
+                .join(' ')
+                .trim();
+            if (text) return text;
+        }
+        const ariaLabel = el.getAttribute('aria-label')?.trim();
+        if (ariaLabel) return ariaLabel;
+        const text = (el as HTMLElement).innerText?.trim() || el.textContent?.trim();
+        if (text) return text;
+        const innerAlt = Array.from(el.querySelectorAll('img[alt], svg title'))
+            .map((child) => child.getAttribute('alt') || child.textContent || '')
+            .join(' ')
+            .trim();
+        if (innerAlt) return innerAlt;
+        return el.getAttribute('title')?.trim() || '';
+    };
+
+    // 1. Idioma da página
+    const lang = document.documentElement.getAttribute('lang') || '';
+    if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(lang)) report('html-lang', document.documentElement);
+
+    // 2. Imagens sem alt (alt="" é válido para imagens decorativas)
+    document.querySelectorAll('img:not([alt])').forEach((img) => {
+        if (img.getAttribute('role') !== 'presentation' && img.getAttribute('aria-hidden') !== 'true') report('image-alt', img);
+    });
+
+    // 3. Campos de formulário sem rótulo
+    document.querySelectorAll('input, select, textarea').forEach((field) => {
+        const type = (field.getAttribute('type') || '').toLowerCase();
+        if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type) || !isVisible(field)) return;
+        const id = field.id;
+        const hasLabel = (id && document.querySelector(`label[for="${CSS.escape(id)}"]`)?.textContent?.trim()) ||
+            field.closest('label')?.textContent?.trim() ||
+            field.getAttribute('aria-label')?.trim() ||
+            field.getAttribute('aria-labelledby') ||
+            field.getAttribute('title')?.trim();
+        if (!hasLabel) report('label', field);
+    });
+
+    // 4. Botões sem nome
+    document.querySelectorAll('button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]').forEach((button) => {
+        if (!isVisible(button)) return;
+        const name = button.tagName === 'INPUT' ? (button as HTMLInputElement).value || accessibleName(button) : accessibleName(button);
+        if (!name) report('button-name', button);
+    });
+
+    // 5. Links sem nome
+    document.querySelectorAll('a[href]').forEach((link) => {
+        if (isVisible(link) && !accessibleName(link)) report('link-name', link);
+    });
+
+    // 6. Landmarks e headings
+    const mains = document.querySelectorAll('main, [role="main"]');
+    if (mains.length !== 1) report('landmark-main', mains[1] || document.body, `${mains.length} landmarks principais`);
+
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).filter(isVisible);
+    if (!headings.some((heading) => heading.tagName === 'H1')) report('page-has-heading-one', document.body);
+    let previousLevel = 0;
+    headings.forEach((heading) => {
+        const level = Number(heading.tagName.slice(1));
+        if (previousLevel > 0 && level > previousLevel + 1) report('heading-order', heading, `H${previousLevel} → H${level}`);
+        previousLevel = level;
+    });
+
+    // 7. Foco e teclado
+    const focusableSelector = 'a[href], button, input:not([type="hidden"]), select, textarea, [tabindex]:not([tabindex="-1"])';
+    document.querySelectorAll('[tabindex]').forEach((el) => {
+        if (Number(el.getAttribute('tabindex')) > 0) report('tabindex', el);
+    });
+    document.querySelectorAll('[onclick]').forEach((el) => {
+        if (el.matches(focusableSelector) || !isVisible(el)) return;
+        report('click-not-focusable', el);
+    });
+    document.querySelectorAll('[aria-hidden="true"]').forEach((container) => {
+        container.querySelectorAll(focusableSelector).forEach((el) => {
+            if (el.getAttribute('tabindex') !== '-1' && !(el as HTMLButtonElement).disabled) report('aria-hidden-focus', el);
+        });
+    });
+
+    // Foco visível: compara outline/box-shadow antes e depois do foco em uma amostra de elementos
+    const focusable = Array.from(document.querySelectorAll(focusableSelector))
+        .filter(isVisible)
+        .slice(0, maxFocusSamples) as HTMLElement[];
+    const focusStyle = (el: HTMLElement) => {
+        const style = window.getComputedStyle(el);
+        return `${style.outlineStyle}|${style.outlineWidth}|${style.outlineColor}|${style.boxShadow}|${style.borderColor}|${style.backgroundColor}|${style.textDecorationLine}`;
+    };
+    // Maior duração + atraso de transição (ex: "0.2s, 150ms"), limitada para não travar a auditoria
+    const transitionEnd = (el: HTMLElement) => {
+        const style = window.getComputedStyle(el);
+        const toMs = (value: string) => value.split(',').map((part) => parseFloat(part) * (part.trim().endsWith('ms') ? 1 : 1000) || 0);
+        const durations = toMs(style.transitionDuration);
+        const delays = toMs(style.transitionDelay);
+        const longest = Math.max(0, ...durations.map((duration, idx) => duration + (delays[idx % delays.length] || 0)));
+        return Math.min(longest, maxTransitionWait);
+    };
+    for (const el of focusable) {
+        const before = focusStyle(el);
+        el.focus({ preventScroll: true });
+        if (document.activeElement !== el) continue;
+        // O estilo de foco só vale depois que a transição termina
+        const wait = transitionEnd(el);
+        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait + 50));
+        const after = focusStyle(el);
+        el.blur();
+        if (before === after) report('focus-visible', el);
+    }
+
+    // 8. Contraste de cores (apenas texto com cor sólida e fundo calculável)
+    const { parseColor, luminance, blend, backgroundOf } = (window as unknown as ColorHelpersWindow).__colorHelpers;
+
+    const textElements = Array.from(document.body.querySelectorAll('*'))
+        .filter((el) => Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()))
+        .slice(0, 2000);
+
+    textElements.forEach((el) => {
+        if (!isVisible(el) || ['SCRIPT', 'STYLE', 'NOSCRIPT', 'OPTION'].includes(el.tagName)) return;
+        const style = window.getComputedStyle(el);
+        const foreground = parseColor(style.color);
+        const background = backgroundOf(el);
+        if (!foreground || !background || parseFloat(style.opacity) === 0) return;
+
+        const text = blend(foreground, background);
+        const [light, dark] = [luminance(text), luminance(background)].sort((a, b) => b - a);
+        const ratio = (light + 0.05) / (dark + 0.05);
+
+        const fontSize = parseFloat(style.fontSize);
+        const isLarge = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+        const required = isLarge ? 3 : 4.5;
+        if (ratio < required) report('color-contrast', el, `${ratio.toFixed(2)}:1 (mínimo ${required}:1)`);
+    });
+
+    return results;
+}
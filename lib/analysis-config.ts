@@ -0,0 +1,27 @@
+import type { PerformanceRunOptions } from './performance-runs';
+
+/**
+ * Configuração do processo de análise compartilhada pelas rotas de criação e de progresso:
+ * execuções do PageSpeed e o tempo estimado, que depende delas.
+ */
+
+// Execuções do PageSpeed por estratégia: o resultado é a mediana, para não depender de uma medição ruidosa.
+// Uma de cada vez (mobile e desktop também são sequenciais): chamadas simultâneas esbarram na cota da API
+export const PERFORMANCE_RUNS: PerformanceRunOptions = { runs: 3, concurrency: 1, retries: 1 };
+
+// Estratégias medidas no PageSpeed, uma após a outra (mobile e desktop)
+const PERFORMANCE_STRATEGIES = 2;
+
+// Duração típica de uma chamada do PageSpeed (s); o timeout de cada uma é 60s
+const PAGESPEED_CALL_TIME = 25;
+
+// Demais etapas: scraping com crawl, tecnologias, SEO técnico, links e CRO (s)
+const BASE_TIME = 130;
+
+/**
+ * Tempo estimado total para o processo, em segundos (para feedback de UI).
+ * Não conta as novas tentativas: é a duração típica, não o pior caso.
+ */
+export const ESTIMATED_TOTAL_TIME =
+    BASE_TIME +
+    PERFORMANCE_STRATEGIES * Math.ceil(PERFORMANCE_RUNS.runs / PERFORMANCE_RUNS.concurrency) * PAGESPEED_CALL_TIME;
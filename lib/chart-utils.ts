@@ -30,6 +30,16 @@ export function formatPercentage(value: number): string {
     return `${Math.round(value)}%`;
 }
 
+/**
+ * Formata um tamanho em bytes para exibição (ex: 612 KB, 2.4 MB).
+ * Útil para peso de página e de recursos de terceiros.
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Retorna a cor apropriada baseada em um score (0-100).
  * - Verde: >= 90
@@ -0,0 +1,388 @@
+import type { Browser, Page } from 'puppeteer';
+import { classifyUrl } from './page-classifier';
+import type { ScrapedData } from './scraper';
+
+/**
+ * Exploração do caminho de compra: abre um produto, adiciona ao carrinho e segue até o checkout,
+ * registrando cada etapa (cliques, tempo e screenshot). Nenhum formulário é preenchido ou enviado:
+ * a exploração para na primeira tela do checkout, antes de identificação e pagamento.
+ */
+
+export type CheckoutPlatform = 'vtex' | 'shopify' | 'nuvemshop' | 'generic';
+
+export type FunnelStepName = 'product' | 'add-to-cart' | 'cart' | 'checkout';
+
+export interface FunnelStep {
+    step: FunnelStepName;
+    url: string;
+    success: boolean;
+    clicks: number;
+    durationMs: number;
+    screenshot?: string; // Base64 (JPEG)
+    note?: string;
+}
+
+export interface CheckoutFunnel {
+    platform: CheckoutPlatform;
+    productUrl: string | null;
+    steps: FunnelStep[];
+    totalClicks: number;
+    reachedCheckout: boolean;
+    guestCheckout: boolean | null; // null quando não foi possível concluir
+    blockedAt: FunnelStepName | null;
+}
+
+export const FUNNEL_STEP_LABELS: Record<FunnelStepName, string> = {
+    'product': 'Página de produto',
+    'add-to-cart': 'Adicionar ao carrinho',
+    'cart': 'Carrinho',
+    'checkout': 'Checkout',
+};
+
+export const CHECKOUT_PLATFORM_LABELS: Record<CheckoutPlatform, string> = {
+    vtex: 'VTEX',
+    shopify: 'Shopify',
+    nuvemshop: 'Nuvemshop',
+    generic: 'Genérica',
+};
+
+interface PlatformSelectors {
+    variant: string[]; // Seleção de SKU (tamanho, cor) exigida antes de comprar
+    addToCart: string[];
+    cart: string[];
+    checkout: string[];
+    cartPath?: string; // Caminho do carrinho quando não há link visível
+}
+
+// Seletores conhecidos por plataforma; os genéricos são usados como complemento em todas
+const PLATFORM_SELECTORS: Record<CheckoutPlatform, PlatformSelectors> = {
+    vtex: {
+        variant: ['.skuselector-item:not(.item_unavailable)', '[class*="skuSelectorItem"]:not([class*="unavailable"])'],
+        addToCart: ['a.buy-button', '.buy-button', '[class*="add-to-cart-button"]'],
+        cart: ['a[href*="/checkout/#/cart"]', '[class*="minicart"] a[href*="checkout"]'],
+        checkout: ['#cart-to-orderform', 'a[href*="/checkout/#/orderform"]', 'a[href*="/checkout/#/email"]'],
+        cartPath: '/checkout/#/cart',
+    },
+    shopify: {
+        variant: [],
+        addToCart: ['form[action*="/cart/add"] [type="submit"]', 'button[name="add"]'],
+        cart: ['a[href="/cart"]', 'a[href$="/cart"]'],
+        checkout: ['button[name="checkout"]', 'input[name="checkout"]'],
+        cartPath: '/cart',
+    },
+    nuvemshop: {
+        variant: [],
+        addToCart: ['.js-addtocart', 'input.js-prod-submit-form', '[data-component="product.add-to-cart"]'],
+        cart: ['.js-toggle-cart', '[data-component="cart-button"]'],
+        checkout: ['[name="go_to_checkout"]', '.js-ajax-checkout-button', '.js-go-checkout-btn'],
+        cartPath: '/comprar/',
+    },
+    generic: {
+        variant: [],
+        addToCart: ['.single_add_to_cart_button', 'button[name="add-to-cart"]', '#add-to-cart', '[data-action="add-to-cart"]'],
+        cart: ['a[href*="/cart"]', 'a[href*="carrinho"]', 'a[href*="sacola"]'],
+        checkout: ['.checkout-button', 'button[name="checkout"]'],
+    },
+};
+
+// Textos usados quando nenhum seletor conhecido é encontrado
+const ADD_TO_CART_TEXT = /adicionar (ao|à) (carrinho|sacola)|^comprar|add to cart|buy now/i;
+const CART_TEXT = /ver carrinho|ir para o carrinho|meu carrinho|minha sacola|view cart|^carrinho$|^sacola$/i;
+// Sem "finalizar/fechar pedido": na etapa de pagamento esses botões enviam o pedido
+const CHECKOUT_TEXT = /finalizar compra|ir para o checkout|iniciar compra|continuar compra|^checkout$/i;
+
+// Tempo máximo de espera por etapa (navegação ou atualização do carrinho)
+const STEP_TIMEOUT = 15000;
+
+// Espera por navegação após o clique; cliques que só abrem carrinho lateral não navegam
+const NAVIGATION_GRACE_MS = 3000;
+
+const TARGET_ATTRIBUTE = 'data-checkout-explorer';
+
+/**
+ * Percorre produto → carrinho → checkout a partir dos dados do scraping.
+ * Falhas não interrompem a análise: a etapa é marcada como bloqueada e a exploração termina.
+ *
+ * @param browser Navegador já aberto pelo scrapeSite
+ * @param root Dados da página inicial (inclui as páginas do crawl, quando houver)
+ */
+export async function exploreCheckout(browser: Browser, root: ScrapedData): Promise<CheckoutFunnel> {
+    const productUrl = findProductUrl(root);
+    const funnel: CheckoutFunnel = {
+        platform: 'generic',
+        productUrl,
+        steps: [],
+        totalClicks: 0,
+        reachedCheckout: false,
+        guestCheckout: null,
+        blockedAt: null,
+    };
+
+    if (!productUrl) {
+        funnel.blockedAt = 'product';
+        funnel.steps.push({ step: 'product', url: root.url, success: false, clicks: 0, durationMs: 0, note: 'Nenhuma página de produto encontrada.' });
+        return funnel;
+    }
+
+    const page = await browser.newPage();
+    page.on('dialog', (dialog) => { dialog.dismiss().catch(() => undefined); });
+    let current: FunnelStepName = 'product';
+
+    try {
+        await page.setViewport({ width: 1366, height: 768 });
+
+        // 1. Produto (um clique a partir da vitrine)
+        let startedAt = Date.now();
+        await page.goto(productUrl, { waitUntil: 'networkidle2', timeout: 30000 });
+        funnel.platform = await detectPlatform(page);
+        const selectors = mergeSelectors(funnel.platform);
+        const hasBuyButton = await markTarget(page, selectors.addToCart, ADD_TO_CART_TEXT);
+        await recordStep(page, funnel, 'product', startedAt, 1, hasBuyButton, hasBuyButton ? undefined : 'Botão de compra não encontrado.');
+        if (!hasBuyButton) return finish(funnel, 'product');
+
+        // 2. Adicionar ao carrinho (seleciona variação quando obrigatório)
+        current = 'add-to-cart';
+        startedAt = Date.now();
+        const variantClicks = await selectVariant(page, selectors.variant);
+        const added = await clickTarget(page, selectors.addToCart, ADD_TO_CART_TEXT);
+        await recordStep(page, funnel, 'add-to-cart', startedAt, variantClicks + 1, added, variantClicks > 0 ? 'Variação selecionada antes da compra.' : undefined);
+        if (!added) return finish(funnel, 'add-to-cart');
+
+        // 3. Carrinho: página própria, carrinho lateral já aberto ou link no cabeçalho
+        current = 'cart';
+        startedAt = Date.now();
+        let cartClicks = 0;
+        let cartNote: string | undefined;
+        if (classifyUrl(page.url()) === 'cart') {
+            cartNote = 'Redirecionado direto para o carrinho.';
+        } else if (await markTarget(page, selectors.checkout, CHECKOUT_TEXT)) {
+            cartNote = 'Carrinho lateral aberto após adicionar.';
+        } else if (await clickTarget(page, selectors.cart, CART_TEXT)) {
+            cartClicks = 1;
+        } else if (selectors.cartPath) {
+            await page.goto(new URL(selectors.cartPath, page.url()).toString(), { waitUntil: 'networkidle2', timeout: 30000 });
+            cartClicks = 1;
+            cartNote = 'Link do carrinho não encontrado; acessado pela URL.';
+        }
+        const cartHasItems = await hasCartItems(page);
+        await recordStep(page, funnel, 'cart', startedAt, cartClicks, cartHasItems, cartHasItems ? cartNote : 'Carrinho vazio após adicionar o produto.');
+        if (!cartHasItems) return finish(funnel, 'cart');
+
+        // 4. Checkout: para na primeira tela, sem preencher nenhum campo
+        current = 'checkout';
+        startedAt = Date.now();
+        const clicked = await clickTarget(page, selectors.checkout, CHECKOUT_TEXT);
+        const checkoutPage = clicked ? await inspectCheckout(page) : null;
+        funnel.reachedCheckout = !!checkoutPage?.reached;
+        funnel.guestCheckout = checkoutPage ? checkoutPage.guest : null;
+        await recordStep(
+            page,
+            funnel,
+            'checkout',
+            startedAt,
+            clicked ? 1 : 0,
+            funnel.reachedCheckout,
+            !clicked ? 'Botão de finalizar compra não encontrado.' : checkoutPage?.loginRequired ? 'Checkout exige login ou cadastro.' : undefined
+        );
+        return finish(funnel, funnel.reachedCheckout ? null : 'checkout');
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Exploração do checkout interrompida (${current}):`, message);
+        funnel.steps.push({ step: current, url: page.url(), success: false, clicks: 0, durationMs: 0, note: message.slice(0, 200) });
+        return finish(funnel, current);
+    } finally {
+        await page.close().catch(() => undefined);
+    }
+}
+
+/**
+ * Escolhe a página de produto: primeiro entre as páginas analisadas, depois entre os links da home.
+ */
+function findProductUrl(root: ScrapedData): string | null {
+    const analyzed = [root, ...(root.crawl?.pages || [])].find((page) => page.pageType === 'product');
+    if (analyzed) return analyzed.url;
+    return root.links.internal.find((link) => classifyUrl(link) === 'product') || null;
+}
+
+async function detectPlatform(page: Page): Promise<CheckoutPlatform> {
+    return page.evaluate(() => {
+        const assets = Array.from(document.querySelectorAll('script[src], link[href]'))
+            .map((el) => el.getAttribute('src') || el.getAttribute('href') || '')
+            .join(' ');
+        if ('vtexjs' in window || /vteximg|vtexassets|vtex\.com/i.test(assets)) return 'vtex';
+        if ('Shopify' in window || /cdn\.shopify\.com/i.test(assets)) return 'shopify';
+        if (/nuvemshop|tiendanube|mitiendanube/i.test(assets)) return 'nuvemshop';
+        return 'generic';
+    }) as Promise<CheckoutPlatform>;
+}
+
+function mergeSelectors(platform: CheckoutPlatform): PlatformSelectors {
+    const specific = PLATFORM_SELECTORS[platform];
+    const generic = PLATFORM_SELECTORS.generic;
+    if (platform === 'generic') return generic;
+    return {
+        variant: specific.variant,
+        addToCart: [...specific.addToCart, ...generic.addToCart],
+        cart: [...specific.cart, ...generic.cart],
+        checkout: [...specific.checkout, ...generic.checkout],
+        cartPath: specific.cartPath,
+    };
+}
+
+/**
+ * Marca o primeiro elemento visível que corresponde aos seletores (ou, na falta, ao texto).
+ */
+async function markTarget(page: Page, selectors: string[], textPattern: RegExp): Promise<boolean> {
+    return page.evaluate((selectorList: string[], patternSource: string, flags: string, attribute: string) => {
+        const pattern = new RegExp(patternSource, flags);
+        const isVisible = (el: Element) => el.getClientRects().length > 0 && window.getComputedStyle(el).visibility !== 'hidden';
+        const getText = (el: Element) => ((el as HTMLElement).innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label') || '').trim();
+
+        document.querySelectorAll(`[${attribute}]`).forEach((el) => el.removeAttribute(attribute));
+
+        let target: Element | undefined;
+        for (const selector of selectorList) {
+            try {
+                target = Array.from(document.querySelectorAll(selector)).find(isVisible);
+            } catch {
+                // Seletor não suportado pelo navegador
+            }
+            if (target) break;
+        }
+        if (!target) {
+            target = Array.from(document.querySelectorAll('button, a, input[type="submit"], input[type="button"], [role="button"]'))
+                .find((el) => isVisible(el) && getText(el).length < 60 && pattern.test(getText(el)));
+        }
+        if (!target) return false;
+
+        target.setAttribute(attribute, 'target');
+        return true;
+    }, selectors, textPattern.source, textPattern.flags, TARGET_ATTRIBUTE);
+}
+
+/**
+ * Clica no elemento marcado e aguarda a navegação ou a atualização da página.
+ */
+async function clickTarget(page: Page, selectors: string[], textPattern: RegExp): Promise<boolean> {
+    if (!(await markTarget(page, selectors, textPattern))) return false;
+
+    const selector = `[${TARGET_ATTRIBUTE}="target"]`;
+    const navigation = page.waitForNavigation({ waitUntil: 'networkidle2', timeout: STEP_TIMEOUT }).catch(() => null);
+
+    try {
+        await page.click(selector);
+    } catch {
+        // Elemento coberto por outro (banner, overlay): dispara o clique via DOM
+        await page.$eval(selector, (el) => (el as HTMLElement).click());
+    }
+
+    await Promise.race([navigation, new Promise((resolve) => setTimeout(resolve, NAVIGATION_GRACE_MS))]);
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: STEP_TIMEOUT }).catch(() => undefined);
+    return true;
+}
+
+/**
+ * Seleciona a primeira variação disponível (SKU) e preenche selects obrigatórios vazios.
+ * Retorna a quantidade de cliques equivalentes.
+ */
+async function selectVariant(page: Page, variantSelectors: string[]): Promise<number> {
+    let clicks = 0;
+
+    for (const selector of variantSelectors) {
+        const option = await page.$(selector).catch(() => null);
+        if (option) {
+            await option.click().catch(() => undefined);
+            clicks++;
+            break;
+        }
+    }
+
+    clicks += await page.evaluate(() => {
+        let selected = 0;
+        document.querySelectorAll('form select, [class*="product"] select').forEach((el) => {
+            const select = el as HTMLSelectElement;
+            if (select.value || select.getClientRects().length === 0) return;
+            const option = Array.from(select.options).find((item) => item.value && !item.disabled);
+            if (!option) return;
+            select.value = option.value;
+            select.dispatchEvent(new Event('change', { bubbles: true }));
+            selected++;
+        });
+        return selected;
+    });
+
+    return clicks;
+}
+
+/**
+ * Verifica se o carrinho tem itens: linha de produto no carrinho ou contador do ícone maior que zero.
+ * Estar na URL do carrinho não basta: o carrinho pode estar vazio.
+ */
+async function hasCartItems(page: Page): Promise<boolean> {
+    return page.evaluate(() => {
+        const text = document.body.innerText || '';
+        if (/(carrinho|sacola|cart) (está |is )?vazi[oa]|your cart is empty|nenhum (produto|item)/i.test(text)) return false;
+        const hasItemRow = !!document.querySelector(
+            '[class*="cart-item"], [class*="cart__item"], [class*="cart-product"], [class*="carrinho-item"], [class*="product-item"][class*="cart"], .js-cart-item'
+        );
+        const counters = document.querySelectorAll(
+            '[class*="cart-count"], [class*="cart-quantity"], [class*="cart__count"], [class*="minicart"] [class*="quantity"], [class*="minicart"] [class*="badge"], .js-cart-widget-amount, [data-cart-count]'
+        );
+        const hasCount = Array.from(counters).some((el) => Number((el.getAttribute('data-cart-count') || el.textContent || '').replace(/\D/g, '')) > 0);
+        return hasItemRow || hasCount;
+    });
+}
+
+/**
+ * Verifica se a página atual é o checkout e se permite comprar sem cadastro.
+ */
+async function inspectCheckout(page: Page): Promise<{ reached: boolean; guest: boolean | null; loginRequired: boolean }> {
+    return page.evaluate(() => {
+        const isVisible = (el: Element) => el.getClientRects().length > 0;
+        const text = document.body.innerText || '';
+        const hasPassword = Array.from(document.querySelectorAll('input[type="password"]')).some(isVisible);
+        const hasEmail = Array.from(document.querySelectorAll('input[type="email"], input[name*="email" i], input[id*="email" i]')).some(isVisible);
+        const guestText = /comprar como (visitante|convidado)|continuar como (visitante|convidado)|checkout (as )?guest|sem cadastro|compra r[aá]pida/i.test(text);
+        // O carrinho da VTEX também fica em /checkout (#/cart): não conta como checkout
+        const onCart = /#\/cart|\/cart(\/|$|\?)|carrinho|sacola/i.test(window.location.href);
+        const reached = !onCart && (/checkout|finalizar|pagamento|payment|orderform|identifica/i.test(window.location.href) || hasEmail);
+        const loginRequired = hasPassword && !guestText && !/criar conta depois|n[aã]o tenho cadastro/i.test(text);
+
+        return {
+            reached,
+            // Só e-mail (sem senha) na primeira tela também é compra sem cadastro (ex: VTEX, Shopify)
+            guest: guestText || (hasEmail && !hasPassword) ? true : loginRequired ? false : null,
+            loginRequired,
+        };
+    });
+}
+
+async function recordStep(
+    page: Page,
+    funnel: CheckoutFunnel,
+    step: FunnelStepName,
+    startedAt: number,
+    clicks: number,
+    success: boolean,
+    note?: string
+): Promise<void> {
+    const screenshot = await page.screenshot({ encoding: 'base64', type: 'jpeg', quality: 60 }).catch(() => null);
+    funnel.steps.push({
+        step,
+        url: page.url(),
+        success,
+        clicks,
+        durationMs: Date.now() - startedAt,
+        screenshot: screenshot ? `data:image/jpeg;base64,${screenshot}` : undefined,
+        note,
+    });
+    funnel.totalClicks += clicks;
+}
+
+function finish(funnel: CheckoutFunnel, blockedAt: FunnelStepName | null): CheckoutFunnel {
+    funnel.blockedAt = blockedAt;
+    console.log(blockedAt
+        ? `🛒 Caminho de compra interrompido em: ${FUNNEL_STEP_LABELS[blockedAt]}`
+        : `🛒 Checkout alcançado em ${funnel.totalClicks} cliques`);
+    return funnel;
+}
@@ -0,0 +1,76 @@
+import type { Page } from 'puppeteer';
+
+/**
+ * Funções de cor usadas no contexto da página pela auditoria de acessibilidade e pela análise da dobra:
+ * leitura de rgb()/rgba(), luminância relativa (WCAG), composição de transparência e fundo efetivo.
+ * São instaladas em window antes do page.evaluate, que não enxerga nada de fora da função executada.
+ */
+
+export interface Rgb {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface Rgba extends Rgb {
+    a: number;
+}
+
+export interface ColorHelpers {
+    parseColor: (value: string) => Rgba | null;
+    luminance: (color: Rgb) => number;
+    blend: (top: Rgba, bottom: Rgb) => Rgb;
+    backgroundOf: (el: Element | null) => Rgb | null;
+}
+
+// Nas funções executadas na página: const { parseColor } = (window as unknown as ColorHelpersWindow).__colorHelpers
+export type ColorHelpersWindow = { __colorHelpers: ColorHelpers };
+
+/**
+ * Instala as funções de cor na página atual (precisa ser refeito após cada navegação).
+ */
+export async function injectColorHelpers(page: Page): Promise<void> {
+    await page.evaluate(installColorHelpers);
+}
+
+/**
+ * Executada no contexto da página (precisa ser autocontida).
+ */
+function installColorHelpers() {
+    const parseColor = (value: string) => {
+        const match = value.match(/rgba?\(([\d.]+),\s*([\d.]+),\s*([\d.]+)(?:,\s*([\d.]+))?\)/);
+        return match ? { r: +match[1], g: +match[2], b: +match[3], a: match[4] === undefined ? 1 : +match[4] } : null;
+    };
+    const luminance = ({ r, g, b }: { r: number; g: number; b: number }) => {
+        const [R, G, B] = [r, g, b].map((channel) => {
+            const c = channel / 255;
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        });
+        return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+    };
+    const blend = (top: { r: number; g: number; b: number; a: number }, bottom: { r: number; g: number; b: number }) => ({
+        r: top.r * top.a + bottom.r * (1 - top.a),
+        g: top.g * top.a + bottom.g * (1 - top.a),
+        b: top.b * top.a + bottom.b * (1 - top.a),
+    });
+    // Fundo efetivo: compõe os fundos dos ancestrais; imagens de fundo tornam o cálculo impossível
+    const backgroundOf = (el: Element | null) => {
+        const layers: { r: number; g: number; b: number; a: number }[] = [];
+        for (let current = el; current; current = current.parentElement) {
+            const style = window.getComputedStyle(current);
+            if (style.backgroundImage !== 'none') return null;
+            const color = parseColor(style.backgroundColor);
+            if (color && color.a > 0) {
+                layers.push(color);
+                if (color.a === 1) break;
+            }
+        }
+        return layers.reverse().reduce<{ r: number; g: number; b: number }>(
+            (bottom, layer) => blend(layer, bottom),
+            { r: 255, g: 255, b: 255 }
+        );
+    };
+
+    const helpers: ColorHelpers = { parseColor, luminance, blend, backgroundOf };
+    (window as unknown as ColorHelpersWindow).__colorHelpers = helpers;
+}
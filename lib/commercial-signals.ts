@@ -0,0 +1,230 @@
+import { Page } from 'puppeteer';
+
+/**
+ * Extração dos sinais comerciais típicos do e-commerce brasileiro:
+ * desconto no Pix, parcelamento sem juros, frete grátis, boleto, WhatsApp, cupons e calculadora de frete.
+ * Cada sinal vem acompanhado de onde foi encontrado na página.
+ */
+
+export type CommercialSignalType =
+    | 'pix'
+    | 'parcelamento'
+    | 'freteGratis'
+    | 'boleto'
+    | 'whatsapp'
+    | 'cupom'
+    | 'calculadoraFrete';
+
+export type SignalLocation = 'cabeçalho' | 'conteúdo' | 'rodapé' | 'flutuante';
+
+export interface CommercialSignalMatch {
+    text: string; // Trecho encontrado (texto, alt de imagem ou rótulo do elemento)
+    location: SignalLocation;
+    element: string; // Descrição curta do elemento (ex: div.product-price)
+    aboveTheFold: boolean;
+}
+
+export interface CommercialSignal {
+    found: boolean;
+    value?: string; // Valor interpretado (ex: "5% de desconto", "12x sem juros", "acima de R$ 199,00")
+    matches: CommercialSignalMatch[];
+}
+
+export interface CommercialSignalsReport {
+    signals: Record<CommercialSignalType, CommercialSignal>;
+    pixDiscountPercent: number | null;
+    maxInstallments: number | null;
+    interestFreeInstallments: boolean;
+    freeShippingThreshold: number | null; // Valor mínimo em reais para frete grátis
+}
+
+// Rótulos em português para exibição e para o prompt da IA
+export const COMMERCIAL_SIGNAL_LABELS: Record<CommercialSignalType, string> = {
+    pix: 'Pix',
+    parcelamento: 'Parcelamento',
+    freteGratis: 'Frete grátis',
+    boleto: 'Boleto',
+    whatsapp: 'Botão de WhatsApp',
+    cupom: 'Cupom / código promocional',
+    calculadoraFrete: 'Calculadora de frete (CEP)',
+};
+
+// Máximo de ocorrências guardadas por sinal
+const MAX_MATCHES = 5;
+
+/**
+ * Coleta as ocorrências de cada sinal no contexto da página e interpreta os valores.
+ */
+export async function extractCommercialSignals(page: Page): Promise<CommercialSignalsReport> {
+    const rawMatches = await page.evaluate((maxMatches: number) => {
+        const textPatterns: Record<string, RegExp> = {
+            pix: /\bpix\b/i,
+            parcelamento: /\d{1,2}\s*x\s*(de\s*R\$\s*[\d.,]+\s*)?sem\s*juros|em\s*at[ée]\s*\d{1,2}\s*x/i,
+            freteGratis: /frete\s*gr[aá]tis/i,
+            boleto: /\bboleto\b/i,
+            cupom: /\bcupom\b|c[oó]digo\s*promocional|use\s*o\s*c[oó]digo/i,
+            calculadoraFrete: /calcul(e|ar)\s*(o\s*)?frete|consult(e|ar)\s*(o\s*)?frete|calcular\s*prazo/i,
+        };
+
+        const elementSelectors: Record<string, string> = {
+            pix: 'img[alt*="pix" i], img[src*="pix" i]',
+            boleto: 'img[alt*="boleto" i], img[src*="boleto" i]',
+            whatsapp: 'a[href*="wa.me"], a[href*="api.whatsapp.com"], a[href*="whatsapp"], [class*="whatsapp" i]',
+            calculadoraFrete: 'input[name*="cep" i], input[id*="cep" i], input[placeholder*="cep" i], [class*="shipping-calc" i], [class*="calcular-frete" i]',
+        };
+
+        const matches: Record<string, { text: string; location: string; element: string; aboveTheFold: boolean }[]> = {};
+
+        const isVisible = (el: Element) => {
+            const rect = el.getBoundingClientRect();
+            const style = window.getComputedStyle(el);
+            return rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden';
+        };
+
+        // Onde o elemento está: cabeçalho, rodapé, flutuante (position: fixed) ou conteúdo
+        const describeLocation = (el: Element) => {
+            if (el.closest('header, [class*="header" i], [class*="topbar" i], [class*="top-bar" i]')) return 'cabeçalho';
+            if (el.closest('footer, [class*="footer" i]')) return 'rodapé';
+            let current: Element | null = el;
+            while (current && current !== document.body) {
+                if (window.getComputedStyle(current).position === 'fixed') return 'flutuante';
+                current = current.parentElement;
+            }
+            return 'conteúdo';
+        };
+
+        const describeElement = (el: Element) => {
+            const className = typeof el.className === 'string' ? el.className.trim().split(/\s+/)[0] : '';
+            return el.tagName.toLowerCase() + (className ? `.${className}` : '');
+        };
+
+        const addMatch = (type: string, el: Element, text: string) => {
+            if (!matches[type]) matches[type] = [];
+            if (matches[type].length >= maxMatches) return;
+
+            const snippet = text.replace(/\s+/g, ' ').trim().slice(0, 140);
+            if (matches[type].some((match) => match.text === snippet)) return;
+
+            matches[type].push({
+                text: snippet,
+                location: describeLocation(el),
+                element: describeElement(el),
+                aboveTheFold: el.getBoundingClientRect().top < window.innerHeight,
+            });
+        };
+
+        // 1. Texto visível da página
+        const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+        let node = walker.nextNode();
+        while (node) {
+            const parent = node.parentElement;
+            const text = node.textContent || '';
+            const matchedTypes = Object.keys(textPatterns).filter((type) => textPatterns[type].test(text));
+
+            // Visibilidade só é verificada quando há correspondência (getComputedStyle é custoso)
+            if (parent && matchedTypes.length > 0 && !['SCRIPT', 'STYLE', 'NOSCRIPT'].includes(parent.tagName) && isVisible(parent)) {
+                // Sobe até dois níveis para manter o contexto (ex: "5% de desconto no <strong>Pix</strong>")
+                let contextEl: HTMLElement = parent;
+                for (let level = 0; level < 2; level++) {
+                    const up = contextEl.parentElement;
+                    if (!up || up === document.body || (up.innerText || '').length > 200) break;
+                    contextEl = up;
+                }
+                const context = contextEl.innerText || text;
+                matchedTypes.forEach((type) => addMatch(type, parent, context));
+            }
+            node = walker.nextNode();
+        }
+
+        // 2. Elementos (ícones de pagamento, botões, campos de CEP)
+        Object.entries(elementSelectors).forEach(([type, selector]) => {
+            document.querySelectorAll(selector).forEach((el) => {
+                if (!isVisible(el)) return;
+                const label =
+                    el.getAttribute('alt') ||
+                    el.getAttribute('placeholder') ||
+                    el.getAttribute('aria-label') ||
+                    (el as HTMLElement).innerText ||
+                    el.getAttribute('href') ||
+                    describeElement(el);
+                addMatch(type, el, label);
+            });
+        });
+
+        return matches;
+    }, MAX_MATCHES);
+
+    return buildCommercialSignalsReport(rawMatches as Partial<Record<CommercialSignalType, CommercialSignalMatch[]>>);
+}
+
+/**
+ * Converte valores monetários brasileiros (ex: "1.299,90") para número.
+ */
+function parseBRL(value: string): number {
+    return parseFloat(value.replace(/\./g, '').replace(',', '.'));
+}
+
+/**
+ * Interpreta os trechos encontrados e monta o relatório de sinais comerciais.
+ */
+function buildCommercialSignalsReport(
+    rawMatches: Partial<Record<CommercialSignalType, CommercialSignalMatch[]>>
+): CommercialSignalsReport {
+    const types = Object.keys(COMMERCIAL_SIGNAL_LABELS) as CommercialSignalType[];
+    const signals = {} as Record<CommercialSignalType, CommercialSignal>;
+
+    types.forEach((type) => {
+        const matches = rawMatches[type] || [];
+        signals[type] = { found: matches.length > 0, matches };
+    });
+
+    const texts = (type: CommercialSignalType) => signals[type].matches.map((match) => match.text);
+
+    // Desconto no Pix: "5% de desconto no Pix", "Pix com 10% off", "10% OFF à vista no Pix"
+    let pixDiscountPercent: number | null = null;
+    for (const text of texts('pix')) {
+        const match =
+            text.match(/(\d{1,2})\s*%[^%]{0,40}?pix/i) || text.match(/pix[^%]{0,40}?(\d{1,2})\s*%/i);
+        if (match) {
+            pixDiscountPercent = Math.max(pixDiscountPercent ?? 0, parseInt(match[1], 10));
+        }
+    }
+    if (pixDiscountPercent !== null) signals.pix.value = `${pixDiscountPercent}% de desconto`;
+
+    // Parcelamento: maior número de parcelas encontrado
+    let maxInstallments: number | null = null;
+    let interestFreeInstallments = false;
+    for (const text of texts('parcelamento')) {
+        const match = text.match(/(\d{1,2})\s*x/i);
+        if (match) {
+            maxInstallments = Math.max(maxInstallments ?? 0, parseInt(match[1], 10));
+        }
+        if (/sem\s*juros/i.test(text)) interestFreeInstallments = true;
+    }
+    if (maxInstallments !== null) {
+        signals.parcelamento.value = `${maxInstallments}x${interestFreeInstallments ? ' sem juros' : ''}`;
+    }
+
+    // Frete grátis: valor mínimo ("acima de R$ 199", "a partir de R$ 299,90")
+    let freeShippingThreshold: number | null = null;
+    for (const text of texts('freteGratis')) {
+        const match = text.match(/(acima\s*de|a\s*partir\s*de|compras\s*de|acima)\s*R\$\s*([\d.,]+)/i);
+        if (match) {
+            const value = parseBRL(match[2]);
+            if (!isNaN(value)) freeShippingThreshold = Math.min(freeShippingThreshold ?? value, value);
+        }
+    }
+    if (freeShippingThreshold !== null) {
+        signals.freteGratis.value = `acima de ${freeShippingThreshold.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`;
+    } else if (signals.freteGratis.found) {
+        signals.freteGratis.value = 'sem valor mínimo informado';
+    }
+
+    return {
+        signals,
+        pixDiscountPercent,
+        maxInstallments,
+        interestFreeInstallments,
+        freeShippingThreshold,
+    };
+}
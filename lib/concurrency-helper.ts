@@ -0,0 +1,27 @@
+/**
+ * Utilitário para executar tarefas assíncronas com limite de simultaneidade.
+ * Usado na verificação de links e nas execuções repetidas do PageSpeed.
+ */
+
+/**
+ * Executa as tarefas com um limite de requisições simultâneas, preservando a ordem dos resultados.
+ *
+ * @param items Itens a processar.
+ * @param limit Máximo de tarefas em andamento ao mesmo tempo.
+ * @param worker Função assíncrona aplicada a cada item.
+ * @returns Os resultados, na mesma ordem dos itens.
+ */
+export async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index]);
+        }
+    });
+
+    await Promise.all(runners);
+    return results;
+}
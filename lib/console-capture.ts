@@ -0,0 +1,121 @@
+import type { Page } from 'puppeteer';
+import { getRootDomain } from './network-capture';
+
+/**
+ * Captura de erros durante o carregamento da página: exceções JavaScript, erros e avisos do console,
+ * requisições que falharam, respostas 4xx/5xx de sub-recursos e violações de Content-Security-Policy.
+ */
+
+export type ConsoleEntryKind = 'js-exception' | 'console-error' | 'console-warning' | 'request-failed' | 'http-error' | 'csp-violation';
+
+export interface ConsoleEntry {
+    kind: ConsoleEntryKind;
+    message: string;
+    url: string | null; // Script ou recurso de origem
+    status?: number; // Apenas para http-error
+    thirdParty: boolean;
+    count: number; // Mensagens repetidas são agrupadas
+}
+
+export interface ConsoleReport {
+    counts: Record<ConsoleEntryKind, number>;
+    entries: ConsoleEntry[];
+}
+
+export interface ConsoleCapture {
+    stop(): ConsoleReport;
+}
+
+export const CONSOLE_ENTRY_LABELS: Record<ConsoleEntryKind, string> = {
+    'js-exception': 'Exceção JavaScript',
+    'console-error': 'Erro no console',
+    'console-warning': 'Aviso no console',
+    'request-failed': 'Requisição falhou',
+    'http-error': 'Erro HTTP',
+    'csp-violation': 'Violação de CSP',
+};
+
+// Limite de entradas distintas armazenadas por página
+const MAX_ENTRIES = 100;
+
+// Mensagens do Chrome para recursos bloqueados pela Content-Security-Policy
+const CSP_MESSAGE = /content security policy/i;
+
+/**
+ * Inicia a captura em uma aba. Deve ser chamada antes do page.goto().
+ */
+export function startConsoleCapture(page: Page, siteUrl: string): ConsoleCapture {
+    const siteDomain = getRootDomain(new URL(siteUrl).hostname);
+    const entries = new Map<string, ConsoleEntry>();
+    let stopped = false;
+
+    const isThirdParty = (url: string | null) => {
+        if (!url) return false;
+        try {
+            return getRootDomain(new URL(url).hostname) !== siteDomain;
+        } catch {
+            return false;
+        }
+    };
+
+    const record = (kind: ConsoleEntryKind, message: string, url: string | null, status?: number) => {
+        if (stopped) return;
+        const text = message.replace(/\s+/g, ' ').trim().slice(0, 500);
+        const key = `${kind}|${text}|${url}`;
+        const existing = entries.get(key);
+        if (existing) {
+            existing.count++;
+            return;
+        }
+        if (entries.size >= MAX_ENTRIES) return;
+        entries.set(key, { kind, message: text, url, status, thirdParty: isThirdParty(url), count: 1 });
+    };
+
+    page.on('console', (message) => {
+        const type = message.type();
+        if (type !== 'error' && type !== 'warn') return;
+        const url = message.location()?.url || null;
+        if (CSP_MESSAGE.test(message.text())) {
+            record('csp-violation', message.text(), url);
+        } else if (type === 'error') {
+            // Falhas de rede também aparecem no console; já são registradas pelos eventos de requisição
+            if (/^Failed to load resource/i.test(message.text())) return;
+            record('console-error', message.text(), url);
+        } else {
+            record('console-warning', message.text(), url);
+        }
+    });
+
+    page.on('pageerror', (error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        const stackUrl = error instanceof Error ? error.stack?.match(/https?:\/\/[^\s)]+?(?=:\d+:\d+)/)?.[0] : undefined;
+        record('js-exception', message, stackUrl || null);
+    });
+
+    page.on('requestfailed', (request) => {
+        const errorText = request.failure()?.errorText || 'falha desconhecida';
+        // Requisições abortadas pela própria página (navegação, cancelamento) não são erros
+        if (errorText === 'net::ERR_ABORTED') return;
+        record('request-failed', `${request.resourceType()}: ${errorText}`, request.url());
+    });
+
+    page.on('response', (response) => {
+        const status = response.status();
+        if (status < 400 || response.request().isNavigationRequest()) return;
+        record('http-error', `${response.request().resourceType()} respondeu HTTP ${status}`, response.url(), status);
+    });
+
+    return {
+        stop() {
+            stopped = true;
+            const list = Array.from(entries.values());
+            const counts = Object.fromEntries(
+                (Object.keys(CONSOLE_ENTRY_LABELS) as ConsoleEntryKind[]).map((kind) => [
+                    kind,
+                    list.filter((entry) => entry.kind === kind).reduce((sum, entry) => sum + entry.count, 0),
+                ])
+            ) as Record<ConsoleEntryKind, number>;
+            return { counts, entries: list };
+        },
+    };
+}
@@ -1,8 +1,21 @@
 import { genAI, MODELS } from './gemini-client';
 import type { ScrapedData } from './scraper';
+import { PAGE_TYPE_LABELS } from './page-classifier';
+import { COMMERCIAL_SIGNAL_LABELS, type CommercialSignalType } from './commercial-signals';
+import { FORM_ISSUE_LABELS, FORM_KIND_LABELS } from './form-analysis';
+import { FUNNEL_STEP_LABELS } from './checkout-explorer';
+import { FOLD_ROLE_LABELS } from './above-the-fold';
+import { CONSOLE_ENTRY_LABELS } from './console-capture';
 import type { DetectedTechnology } from './technology-detector';
+import { TECHNOLOGY_RISK_LABELS } from './technology-risks';
 import type { PerformanceMetrics } from './performance-analyzer';
+import { formatMetricValue, getMetricValues, METRIC_RATING_LABELS, THRESHOLD_SOURCE_LABELS, type LabMetricId } from './performance-metrics';
+import { PERFORMANCE_AUDIT_KIND_LABELS } from './lighthouse-audits';
+import { compareFieldWithLab, FIELD_CATEGORY_LABELS, FIELD_METRIC_LABELS, type FieldData, type FieldMetricId } from './crux-field-data';
+import type { SeoAuditReport } from './seo-audit';
+import type { LinkCheckReport } from './link-checker';
 import { retryWithBackoff } from './retry-helper';
+import { formatBytes } from './chart-utils';
 
 // Interface para a resposta estruturada da análise de CRO
 export interface CROAnalysis {
@@ -21,18 +34,27 @@ export interface CROAnalysis {
     error?: string;
 }
 
+// Resultados das etapas complementares, usados como contexto adicional no prompt
+export interface CROContext {
+    seo?: SeoAuditReport;
+    links?: LinkCheckReport;
+    performanceDesktop?: PerformanceMetrics;
+}
+
 /**
  * Analisa os dados coletados do e-commerce e gera um relatório de CRO usando IA.
  * 
  * @param scrapedData Dados extraídos da página (meta tags, conteúdo, etc)
  * @param technologiesData Tecnologias detectadas no site
  * @param performanceData Métricas de performance (Core Web Vitals)
+ * @param context Resultados das demais etapas da análise (SEO técnico, etc.)
  * @returns Análise estruturada de CRO
  */
 export async function analyzeCRO(
     scrapedData: ScrapedData,
     technologiesData: DetectedTechnology[],
-    performanceData: PerformanceMetrics
+    performanceData: PerformanceMetrics,
+    context: CROContext = {}
 ): Promise<CROAnalysis> {
     console.log('🧠 Iniciando análise de CRO com Gemini...');
 
@@ -52,14 +74,18 @@ Sua análise deve ser técnica, baseada em dados, mas acionável para donos de e
 1. Seja objetivo e baseie-se estritamente nos dados fornecidos.
 2. Foque em oportunidades de alto impacto para aumento de conversão.
 3. Considere o contexto do mercado brasileiro (meios de pagamento, frete, confiança).
-4. Use linguagem profissional.
-5. A resposta DEVE ser um JSON válido seguindo o schema solicitado.
+4. Dê atenção especial às páginas de produto e categoria, onde a conversão é decidida.
+5. Os sinais comerciais (Pix, parcelamento, frete, etc.) foram extraídos da página: trate-os como fatos e não os deduza dos headings.
+6. Na discussão de confiança, considere também a segurança: certificado expirando, conteúdo misto e ausência de HTTPS geram alertas no navegador e derrubam a conversão no checkout.
+7. Ao recomendar melhorias de performance, cite os gargalos reais apontados pelas auditorias do Lighthouse (recursos e economia estimada) em vez de conselhos genéricos.
+8. Use linguagem profissional.
+9. A resposta DEVE ser um JSON válido seguindo o schema solicitado.
 </constraints>
 
 <context>
 ## Dados do Site Analisado: ${scrapedData.url}
 
-### Conteúdo e SEO On-page:
+### Conteúdo e SEO On-page (${PAGE_TYPE_LABELS[scrapedData.pageType]}):
 - Título: ${scrapedData.title}
 - Descrição: ${scrapedData.metaDescription}
 - Keywords: ${scrapedData.metaKeywords}
@@ -67,16 +93,82 @@ Sua análise deve ser técnica, baseada em dados, mas acionável para donos de e
 - Imagens sem Alt: ${scrapedData.images.withoutAlt} de ${scrapedData.images.total}
 - Scripts Detectados: ${scrapedData.scripts.detected.join(', ')}
 
+### SEO Técnico (Indexabilidade):
+${formatSeoAudit(context.seo)}
+
+### Links Quebrados e Redirecionamentos:
+${formatLinkCheck(context.links)}
+
+### Primeira Dobra (Sem Rolar a Página):
+${formatAboveTheFold(scrapedData)}
+
+### Sinais Comerciais (Meios de Pagamento, Frete e Atendimento):
+${formatCommercialSignals(scrapedData)}
+
+### Confiança e Prova Social:
+${formatTrustSignals(scrapedData)}
+
+### Caminho de Compra (Produto → Carrinho → Checkout):
+${formatCheckoutFunnel(scrapedData)}
+
+### Formulários e Atrito (Campos, Máscaras e Autocomplete):
+${formatForms(scrapedData)}
+
+### Segurança (HTTPS, Certificado TLS e Cabeçalhos):
+${formatSecurity(scrapedData)}
+
+### Privacidade e LGPD (Antes do Consentimento):
+${formatLgpd(scrapedData)}
+
+### Acessibilidade (WCAG):
+${formatAccessibility(scrapedData)}
+
+### Dados Estruturados (Schema.org / Google Shopping):
+${formatStructuredData(scrapedData)}
+
+### Experiência Mobile (Desktop x Mobile):
+${formatViewportDifferences(scrapedData)}
+
+### Páginas Internas Analisadas (Crawl):
+${formatCrawledPages(scrapedData)}
+
+### Peso da Página e Scripts de Terceiros:
+${formatNetwork(scrapedData)}
+
+### Erros de JavaScript e Requisições com Falha:
+${formatConsoleErrors(scrapedData)}
+
+### Otimização de Imagens:
+${formatImageAudit(scrapedData)}
+
 ### Tecnologias Detectadas (Stack):
-${JSON.stringify(technologiesData.map(t => `${t.name} (${t.category})`), null, 2)}
+${JSON.stringify(technologiesData.map(t => `${t.name}${t.version ? ` ${t.version}` : ''} (${t.category})`), null, 2)}
+
+### Riscos de Componentes (Versões sem Suporte ou Vulneráveis):
+${formatTechnologyRisks(technologiesData)}
 
-### Performance (Core Web Vitals):
+### Performance Mobile (Core Web Vitals):
+- Fonte: ${performanceData.source === 'local' ? 'medição local em laboratório (PageSpeed indisponível; Speed Index estimado)' : 'PageSpeed Insights'}
 - Performance Score: ${performanceData.score}/100
-- FCP (First Contentful Paint): ${performanceData.fcp}
-- LCP (Largest Contentful Paint): ${performanceData.lcp}
-- CLS (Cumulative Layout Shift): ${performanceData.cls}
-- TTI (Time to Interactive): ${performanceData.tti}
-- Speed Index: ${performanceData.speedIndex}
+- Execuções: ${formatPerformanceRuns(performanceData)}
+- FCP (First Contentful Paint): ${formatLabMetric(performanceData, 'fcp')}
+- LCP (Largest Contentful Paint): ${formatLabMetric(performanceData, 'lcp')}
+- CLS (Cumulative Layout Shift): ${formatLabMetric(performanceData, 'cls')}
+- TBT (Total Blocking Time): ${formatLabMetric(performanceData, 'tbt')}
+- TTI (Time to Interactive): ${formatLabMetric(performanceData, 'tti')}
+- Speed Index: ${formatLabMetric(performanceData, 'speedIndex')}
+
+### Usuários Reais (CrUX, Mobile) vs. Laboratório:
+${formatFieldData(performanceData)}
+
+### Gargalos de Performance (Auditorias do Lighthouse, Mobile):
+${formatPerformanceAudits(performanceData)}
+
+### Performance Desktop (Comparação com Mobile):
+${formatDesktopPerformance(performanceData, context.performanceDesktop)}
+
+### Tempos Medidos Localmente (Perfis de Rede e CPU):
+${formatLabTimings(scrapedData)}
 </context>
 
 <task>
@@ -165,6 +257,410 @@ Analise este e-commerce e forneça uma análise estruturada em JSON com o seguin
     }
 }
 
+/**
+ * Lista os sinais comerciais de cada página analisada com o valor interpretado e onde foram encontrados.
+ */
+function formatCommercialSignals(scrapedData: ScrapedData): string {
+    const pages = [scrapedData, ...(scrapedData.crawl?.pages || [])].filter((page) => page.commercialSignals);
+    if (pages.length === 0) return '- Sinais comerciais não coletados.';
+
+    const types = Object.keys(COMMERCIAL_SIGNAL_LABELS) as CommercialSignalType[];
+
+    return pages.map((page) => {
+        const lines = [`- [${PAGE_TYPE_LABELS[page.pageType]}] ${page.url}`];
+        types.forEach((type) => {
+            const signal = page.commercialSignals!.signals[type];
+            if (!signal.found) {
+                lines.push(`  ${COMMERCIAL_SIGNAL_LABELS[type]}: não encontrado`);
+                return;
+            }
+            const first = signal.matches[0];
+            const where = `${first.location}${first.aboveTheFold ? ', acima da dobra' : ''}`;
+            lines.push(`  ${COMMERCIAL_SIGNAL_LABELS[type]}: sim${signal.value ? `, ${signal.value}` : ''} (${where})`);
+        });
+        return lines.join('\n');
+    }).join('\n');
+}
+
+/**
+ * Resume os sinais de confiança da página enviada (widgets de avaliação, selos, dados da empresa).
+ */
+function formatTrustSignals(scrapedData: ScrapedData): string {
+    const trust = scrapedData.trustSignals;
+    if (!trust) return '- Sinais de confiança não coletados.';
+
+    const names = (items: { name: string }[]) => items.map((item) => item.name).join(', ') || 'nenhum';
+    const ratedProductPages = (scrapedData.crawl?.pages || []).filter(
+        (page) => page.pageType === 'product' && page.structuredData?.entities.some((entity) => entity.type === 'AggregateRating')
+    ).length;
+
+    return [
+        `- Score de Confiança: ${trust.score}/100`,
+        `- Widgets de Avaliação: ${names(trust.reviewWidgets)}`,
+        `- Selo Reclame Aqui: ${trust.reclameAqui ? 'sim' : 'não'}`,
+        `- Selos de Segurança: ${names(trust.securitySeals)}`,
+        `- CNPJ no Rodapé: ${trust.footer.cnpj || 'não encontrado'}`,
+        `- Endereço no Rodapé: ${trust.footer.address || 'não encontrado'}`,
+        `- Política de Trocas e Devoluções: ${trust.policyPages.map((policy) => policy.url).join(', ') || 'link não encontrado'}`,
+        `- Cards de Produto com Estrelas: ${trust.productRatings.cardsWithRating} de ${trust.productRatings.productCards}`,
+        `- Páginas de Produto com AggregateRating: ${ratedProductPages}`,
+    ].join('\n');
+}
+
+/**
+ * Resume os dados estruturados de cada página analisada (tipos encontrados e problemas).
+ */
+function formatStructuredData(scrapedData: ScrapedData): string {
+    const pages = [scrapedData, ...(scrapedData.crawl?.pages || [])].filter((page) => page.structuredData);
+    if (pages.length === 0) return '- Dados estruturados não coletados.';
+
+    return pages.map((page) => {
+        const report = page.structuredData!;
+        const types = report.entities.map((entity) => `${entity.type}${entity.valid ? '' : ' (inválido)'}`);
+        const lines = [
+            `- [${PAGE_TYPE_LABELS[page.pageType]}] ${page.url}: ${types.join(', ') || 'nenhum schema de e-commerce'}`,
+            `  Elegível a rich results de produto: ${report.eligibleForRichResults ? 'sim' : 'não'}`,
+        ];
+        report.issues.slice(0, 5).forEach((issue) => lines.push(`  Problema: ${issue.message}`));
+        return lines.join('\n');
+    }).join('\n');
+}
+
+/**
+ * Descreve os elementos visíveis na primeira dobra (posição, tamanho e contraste) e os problemas.
+ */
+function formatAboveTheFold(scrapedData: ScrapedData): string {
+    const fold = scrapedData.aboveTheFold;
+    if (!fold) return '- Análise da primeira dobra não disponível.';
+
+    const lines = fold.elements.map((element) => {
+        const contrast = element.contrast !== null ? `, contraste ${element.contrast}:1` : '';
+        return `- ${FOLD_ROLE_LABELS[element.role]}: "${element.label.slice(0, 60)}" em (${element.box.x}, ${element.box.y}), ${element.box.width}x${element.box.height}px, ${element.areaShare}% da dobra${contrast}`;
+    });
+    fold.findings.forEach((finding) => lines.push(`  [${finding.severity}] ${finding.message}`));
+    return lines.join('\n') || '- Nenhum elemento identificado.';
+}
+
+/**
+ * Descreve as etapas percorridas até o checkout, os cliques e onde o caminho foi interrompido.
+ */
+function formatCheckoutFunnel(scrapedData: ScrapedData): string {
+    const funnel = scrapedData.checkoutFunnel;
+    if (!funnel) return '- Exploração do checkout não realizada.';
+
+    const lines = [
+        `- Checkout Alcançado: ${funnel.reachedCheckout ? `sim, em ${funnel.totalClicks} cliques` : `não (interrompido em ${FUNNEL_STEP_LABELS[funnel.blockedAt || 'checkout']})`}`,
+        `- Compra sem Cadastro: ${funnel.guestCheckout === null ? 'não verificado' : funnel.guestCheckout ? 'sim' : 'não'}`,
+    ];
+    funnel.steps.forEach((step) => {
+        lines.push(`  ${FUNNEL_STEP_LABELS[step.step]}: ${step.success ? 'ok' : 'falhou'}, ${step.clicks} clique(s), ${(step.durationMs / 1000).toFixed(1)}s${step.note ? ` (${step.note})` : ''}`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Lista os formulários de cada página analisada com a contagem de campos e os pontos de atrito.
+ */
+function formatForms(scrapedData: ScrapedData): string {
+    const pages = [scrapedData, ...(scrapedData.crawl?.pages || [])].filter((page) => page.forms?.forms.length);
+    if (pages.length === 0) return '- Nenhum formulário encontrado.';
+
+    return pages.map((page) => {
+        const lines = [`- [${PAGE_TYPE_LABELS[page.pageType]}] ${page.url}`];
+        page.forms!.forms.forEach((form) => {
+            const issues = form.issues.map((issue) => FORM_ISSUE_LABELS[issue]).join(', ');
+            lines.push(
+                `  ${FORM_KIND_LABELS[form.kind]}: ${form.fieldCount} campos (${form.requiredCount} obrigatórios)` +
+                `${form.masks.length ? `, dados: ${form.masks.join('/')}` : ''}` +
+                `${form.submitText ? `, botão "${form.submitText.slice(0, 40)}"` : ''}` +
+                `${issues ? ` | Atrito: ${issues}` : ''}`
+            );
+        });
+        return lines.join('\n');
+    }).join('\n');
+}
+
+/**
+ * Resume a nota de segurança, o certificado TLS e os problemas encontrados.
+ */
+function formatSecurity(scrapedData: ScrapedData): string {
+    const security = scrapedData.security;
+    if (!security) return '- Auditoria de segurança não disponível.';
+
+    const lines = [`- Nota de Segurança: ${security.grade} (${security.score}/100)`];
+    if (security.tls) {
+        lines.push(`- Certificado TLS: emitido por ${security.tls.issuer}, expira em ${security.tls.daysUntilExpiry} dias`);
+    }
+    security.findings.forEach((finding) => lines.push(`  [${finding.severity}] ${finding.message}`));
+    return lines.join('\n');
+}
+
+/**
+ * Resume a postura de LGPD: banner de consentimento, rastreadores e política de privacidade.
+ */
+function formatLgpd(scrapedData: ScrapedData): string {
+    const lgpd = scrapedData.lgpd;
+    if (!lgpd) return '- Verificação de LGPD não disponível.';
+
+    const lines = [
+        `- Banner de Consentimento: ${lgpd.consentBanner.found ? lgpd.consentBanner.provider || 'próprio' : 'ausente'}`,
+        `- Rastreadores Antes do Consentimento: ${lgpd.trackersBeforeConsent.map((tracker) => tracker.name).join(', ') || 'nenhum'}`,
+        `- Meta Pixel Disparou Antes do Consentimento: ${lgpd.metaPixel.firedBeforeConsent ? 'sim' : 'não'}`,
+        `- Política de Privacidade: ${lgpd.privacyPolicy.reachable ? 'acessível' : lgpd.privacyPolicy.found ? 'inacessível' : 'link ausente'}`,
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Lista as violações de acessibilidade mais graves (também são barreiras para a compra).
+ */
+function formatAccessibility(scrapedData: ScrapedData): string {
+    const accessibility = scrapedData.accessibility;
+    if (!accessibility) return '- Auditoria de acessibilidade não disponível.';
+
+    const lines = [`- Score de Acessibilidade: ${accessibility.score}/100`];
+    accessibility.violations.slice(0, 8).forEach((violation) => {
+        lines.push(`  [${violation.impact}] WCAG ${violation.wcag}: ${violation.description} (${violation.count} elementos)`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Resume o peso da página e os domínios de terceiros mais custosos.
+ */
+function formatNetwork(scrapedData: ScrapedData): string {
+    const network = scrapedData.network;
+    if (!network) return '- Dados de rede não coletados.';
+
+    const lines = [
+        `- Peso Total: ${formatBytes(network.totalBytes)} em ${network.totalRequests} requisições`,
+        `- Terceiros: ${formatBytes(network.thirdPartyBytes)} (${network.thirdParties.length} domínios)`,
+    ];
+    network.thirdParties.slice(0, 5).forEach((party) => {
+        lines.push(`  ${party.name}: ${formatBytes(party.bytes)}, ${party.requests} requisições, ${(party.time / 1000).toFixed(1)}s`);
+    });
+    lines.push('- Recursos Mais Pesados:');
+    network.heaviest.slice(0, 5).forEach((request) => {
+        lines.push(`  ${request.resourceType} ${formatBytes(request.transferSize)}: ${request.url.slice(0, 120)}`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Lista os erros de JavaScript e as requisições com falha de cada página analisada.
+ */
+function formatConsoleErrors(scrapedData: ScrapedData): string {
+    const pages = [scrapedData, ...(scrapedData.crawl?.pages || [])].filter((page) => page.console);
+    if (pages.length === 0) return '- Erros de carregamento não coletados.';
+
+    return pages.map((page) => {
+        const errors = page.console.entries.filter((entry) => entry.kind !== 'console-warning');
+        const lines = [`- [${PAGE_TYPE_LABELS[page.pageType]}] ${page.url}: ${errors.length === 0 ? 'nenhum erro' : `${errors.length} erro(s) distintos`}`];
+        errors.slice(0, 6).forEach((entry) => {
+            const origin = entry.url ? ` (${entry.thirdParty ? 'terceiro: ' : ''}${entry.url.slice(0, 100)})` : '';
+            lines.push(`  ${CONSOLE_ENTRY_LABELS[entry.kind]}: ${entry.message.slice(0, 160)}${origin}`);
+        });
+        return lines.join('\n');
+    }).join('\n');
+}
+
+/**
+ * Lista os tempos locais de cada perfil de rede/CPU (dado de laboratório, cache vazio).
+ */
+function formatLabTimings(scrapedData: ScrapedData): string {
+    const timings = scrapedData.labTimings;
+    if (!timings?.length) return '- Medição local não realizada.';
+
+    const ms = (value: number | null) => (value === null ? 'n/d' : `${(value / 1000).toFixed(1)}s`);
+    return timings.map((timing) => timing.error
+        ? `- ${timing.label}: falha na medição`
+        : `- ${timing.label}: TTFB ${ms(timing.ttfb)}, FCP ${ms(timing.fcp)}, LCP ${ms(timing.lcp)}, CLS ${timing.cls ?? 'n/d'}, TBT ${timing.tbt ?? 'n/d'}ms, load ${ms(timing.load)}, ${formatBytes(timing.transferBytes)}`
+    ).join('\n');
+}
+
+/**
+ * Quantidade de execuções do PageSpeed, variação do score e sinal de instabilidade.
+ */
+function formatPerformanceRuns(performanceData: PerformanceMetrics): string {
+    const runs = performanceData.runs;
+    if (!runs) return '1 (medição única)';
+    if (runs.count === 1) return `1${runs.failed > 0 ? ` (${runs.failed} falharam)` : ''}`;
+
+    return [
+        `mediana de ${runs.count}${runs.failed > 0 ? ` (${runs.failed} falharam)` : ''}`,
+        `score entre ${runs.spread.score.min} e ${runs.spread.score.max}`,
+        runs.unstable ? `resultado instável: ${runs.unstableReason}` : 'resultado estável',
+    ].join('; ');
+}
+
+/**
+ * Resume o p75 de campo (página e domínio), inclusive INP, e as divergências com o laboratório.
+ */
+function formatFieldData(performanceData: PerformanceMetrics): string {
+    const fieldData = performanceData.fieldData;
+    if (!fieldData) return '- Dados de campo não disponíveis (medição local ou análise antiga).';
+
+    const page = fieldData.page && !fieldData.page.originFallback ? fieldData.page : null;
+    const reference = page || fieldData.origin;
+    if (!reference) return '- Sem dados de campo: tráfego insuficiente no Chrome para o CrUX.';
+
+    const describe = (field: FieldData) => (['lcp', 'inp', 'cls', 'fcp', 'ttfb'] as FieldMetricId[])
+        .flatMap((metric) => {
+            const value = field.metrics[metric];
+            if (!value) return [];
+            const formatted = metric === 'cls' ? value.percentile.toFixed(2) : `${Math.round(value.percentile)}ms`;
+            return `${FIELD_METRIC_LABELS[metric]} ${formatted} (${FIELD_CATEGORY_LABELS[value.category]}, ${Math.round(value.distribution.poor * 100)}% das visitas ruins)`;
+        })
+        .join(', ');
+
+    const lines = [
+        `- Avaliação geral dos Core Web Vitals: ${reference.overallCategory ? FIELD_CATEGORY_LABELS[reference.overallCategory] : 'n/d'}`,
+        `- Página: ${page ? describe(page) : 'sem tráfego suficiente'}`,
+        `- Domínio: ${fieldData.origin ? describe(fieldData.origin) : 'sem dados'}`,
+    ];
+    compareFieldWithLab(reference, getMetricValues(performanceData)).forEach((comparison) => lines.push(`  ${comparison.message}`));
+    return lines.join('\n');
+}
+
+/**
+ * Lista as auditorias reprovadas do Lighthouse em ordem de prioridade, com os recursos envolvidos.
+ */
+function formatPerformanceAudits(performanceData: PerformanceMetrics): string {
+    const audits = performanceData.audits;
+    if (!audits) return '- Auditorias do Lighthouse não disponíveis (medição local ou análise antiga).';
+    if (audits.length === 0) return '- Nenhuma auditoria reprovada.';
+
+    return audits.slice(0, 10).map((audit) => {
+        const savings = [
+            audit.savingsMs > 0 && `~${(audit.savingsMs / 1000).toFixed(1)}s`,
+            audit.savingsBytes > 0 && formatBytes(audit.savingsBytes),
+        ].filter(Boolean).join(', ');
+        const lines = [`- [${PERFORMANCE_AUDIT_KIND_LABELS[audit.kind]}] ${audit.title}${audit.displayValue ? `: ${audit.displayValue}` : ''}${savings ? ` (economia estimada: ${savings})` : ''}`];
+        audit.items.slice(0, 3).forEach((item) => lines.push(`  ${item.label.slice(0, 120)}`));
+        return lines.join('\n');
+    }).join('\n');
+}
+
+/**
+ * Métricas da estratégia desktop ao lado das de mobile, para explicar a diferença entre as duas.
+ */
+function formatDesktopPerformance(mobile: PerformanceMetrics, desktop?: PerformanceMetrics): string {
+    if (!desktop) return '- Análise desktop não realizada.';
+    if (desktop.error) return `- Análise desktop falhou: ${desktop.error}`;
+
+    const mobileValues = getMetricValues(mobile);
+    return [
+        `- Fonte: ${desktop.source === 'local' ? 'medição local em laboratório' : 'PageSpeed Insights'}`,
+        `- Performance Score: ${desktop.score}/100 (mobile: ${mobile.score}/100, diferença de ${desktop.score - mobile.score} pontos)`,
+        ...(['fcp', 'lcp', 'cls', 'tbt'] as LabMetricId[]).map((metric) =>
+            `- ${metric.toUpperCase()}: ${formatLabMetric(desktop, metric)} (mobile: ${formatMetricValue(mobileValues[metric])})`
+        ),
+    ].join('\n');
+}
+
+/**
+ * Valor de uma métrica de laboratório com a classificação e a origem do limite (ex: "3.1 s (Precisa melhorar, Core Web Vitals)").
+ */
+function formatLabMetric(performanceData: PerformanceMetrics, metric: LabMetricId): string {
+    const value = getMetricValues(performanceData)[metric];
+    if (!value.rating) return formatMetricValue(value);
+    return `${formatMetricValue(value)} (${METRIC_RATING_LABELS[value.rating]}, limite ${THRESHOLD_SOURCE_LABELS[value.thresholdSource]})`;
+}
+
+/**
+ * Resume o peso das imagens, a economia estimada e as imagens mais problemáticas.
+ */
+function formatImageAudit(scrapedData: ScrapedData): string {
+    const imageAudit = scrapedData.imageAudit;
+    if (!imageAudit) return '- Auditoria de imagens não disponível.';
+
+    const lines = [
+        `- Peso em Imagens: ${formatBytes(imageAudit.totalBytes)} (${imageAudit.totalImages} imagens)`,
+        `- Economia Estimada: ${formatBytes(imageAudit.estimatedSavings)}`,
+    ];
+    imageAudit.findings.forEach((finding) => lines.push(`  [${finding.severity}] ${finding.message}`));
+    imageAudit.images.slice(0, 5).forEach((image) => {
+        lines.push(`  ${image.format} ${image.transferSize !== null ? formatBytes(image.transferSize) : '?'}, ${image.natural.width}x${image.natural.height} exibida em ${image.rendered.width}x${image.rendered.height}: ${image.url.slice(0, 120)}`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Lista as diferenças entre as versões desktop e mobile para o prompt.
+ */
+function formatViewportDifferences(scrapedData: ScrapedData): string {
+    const viewports = scrapedData.viewports;
+    if (!viewports) return '- Emulação mobile não disponível.';
+
+    const lines = [`- Dispositivo emulado: ${viewports.mobile.device}`];
+    if (viewports.differences.length === 0) {
+        lines.push('- Nenhuma diferença relevante entre desktop e mobile.');
+    } else {
+        viewports.differences.forEach((difference) => lines.push(`- ${difference.description}`));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Resume as páginas internas visitadas no crawl para o prompt (uma linha por página).
+ */
+function formatCrawledPages(scrapedData: ScrapedData): string {
+    const pages = scrapedData.crawl?.pages || [];
+    if (pages.length === 0) return '- Nenhuma página interna analisada (apenas a URL enviada).';
+
+    return pages.map((page) => [
+        `- [${PAGE_TYPE_LABELS[page.pageType]}] ${page.url}`,
+        `  Título: ${page.title}`,
+        `  H1: ${page.headings.h1.join(' | ') || 'ausente'}`,
+        `  Imagens sem Alt: ${page.images.withoutAlt} de ${page.images.total}`,
+    ].join('\n')).join('\n');
+}
+
+/**
+ * Resume o score e os principais problemas da auditoria de SEO técnico.
+ */
+function formatSeoAudit(seo?: SeoAuditReport): string {
+    if (!seo) return '- Auditoria de SEO técnico não disponível.';
+
+    const lines = [
+        `- Score de SEO Técnico: ${seo.score}/100 (${seo.pagesAudited} páginas auditadas)`,
+        `- robots.txt: ${seo.robots.found ? 'encontrado' : 'ausente'}; Sitemap: ${seo.sitemap.found ? `${seo.sitemap.urlCount} URLs` : 'ausente'}`,
+    ];
+    [...seo.issues]
+        .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'erro' ? -1 : 1))
+        .slice(0, 10)
+        .forEach((issue) => lines.push(`  [${issue.severity}] ${issue.message}${issue.url ? ` (${issue.url})` : ''}`));
+    return lines.join('\n');
+}
+
+/**
+ * Resume a verificação de links (quebrados, lentos e redirecionamentos).
+ */
+function formatLinkCheck(links?: LinkCheckReport): string {
+    if (!links) return '- Verificação de links não disponível.';
+
+    const lines = [
+        `- Links Verificados: ${links.checked} de ${links.totalLinks} (${links.broken} quebrados, ${links.slow} lentos, ${links.redirected} com redirecionamento)`,
+    ];
+    links.findings.slice(0, 10).forEach((finding) => lines.push(`  [${finding.severity}] ${finding.message} ${finding.url}`));
+    return lines.join('\n');
+}
+
+/**
+ * Lista os componentes com versão sem suporte ou vulnerabilidades conhecidas.
+ */
+function formatTechnologyRisks(technologiesData: DetectedTechnology[]): string {
+    const atRisk = technologiesData.filter((tech) => tech.risks && tech.risks.length > 0);
+    if (atRisk.length === 0) return '- Nenhum componente com risco conhecido entre as versões detectadas.';
+
+    return atRisk.map((tech) => [
+        `- ${tech.name} ${tech.version}:`,
+        ...(tech.risks || []).map((risk) =>
+            `  ${TECHNOLOGY_RISK_LABELS[risk.type]}${risk.severity ? ` (severidade ${risk.severity})` : ''}: ${risk.summary}${risk.ids.length ? ` [${risk.ids.join(', ')}]` : ''}`
+        ),
+    ].join('\n')).join('\n');
+}
+
 /**
  * Gera uma análise básica de fallback baseada apenas em regras estáticas de performance.
  */
@@ -173,7 +669,7 @@ function getFallbackAnalysis(performance: PerformanceMetrics, errorMessage: stri
     const oportunidades: { titulo: string; descricao: string; impacto: 'alto' | 'médio' | 'baixo'; prioridade: number }[] = [];
 
     if (performance.score >= 90) pontosFortes.push('Excelente pontuação de performance geral.');
-    if (parseFloat(performance.cls) < 0.1) pontosFortes.push('Boa estabilidade visual (CLS).');
+    if (getMetricValues(performance).cls.rating === 'good') pontosFortes.push('Boa estabilidade visual (CLS).');
 
     if (performance.score < 50) {
         oportunidades.push({
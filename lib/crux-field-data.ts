@@ -0,0 +1,166 @@
+import { formatMetricValue, rateMetric, type LabMetricValues, type MetricRating } from './performance-metrics';
+
+/**
+ * Dados de campo do Chrome UX Report (CrUX), devolvidos pelo PageSpeed Insights em loadingExperience
+ * (página) e originLoadingExperience (domínio): percentil 75 de usuários reais do Chrome nos últimos 28 dias.
+ */
+
+export type FieldMetricId = 'lcp' | 'inp' | 'cls' | 'fcp' | 'ttfb';
+export type FieldCategory = 'FAST' | 'AVERAGE' | 'SLOW';
+
+export interface FieldMetric {
+    percentile: number; // p75 em ms (CLS sem unidade)
+    distribution: {
+        good: number; // Proporção de visitas (0-1)
+        needsImprovement: number;
+        poor: number;
+    };
+    category: FieldCategory;
+}
+
+export interface FieldData {
+    overallCategory: FieldCategory | null;
+    metrics: Partial<Record<FieldMetricId, FieldMetric>>;
+    originFallback: boolean; // Página sem tráfego suficiente: o PageSpeed devolveu os dados da origem
+}
+
+export interface PerformanceFieldData {
+    page: FieldData | null;
+    origin: FieldData | null;
+}
+
+export interface FieldLabComparison {
+    metric: FieldMetricId;
+    fieldCategory: FieldCategory;
+    labCategory: FieldCategory | null; // null para INP, que não existe no laboratório
+    message: string;
+}
+
+// Formato (parcial) de loadingExperience/originLoadingExperience na resposta do PageSpeed
+export interface CruxLoadingExperience {
+    metrics?: Record<string, {
+        percentile: number;
+        distributions?: { min: number; max?: number; proportion: number }[];
+        category?: string;
+    }>;
+    overall_category?: string;
+    origin_fallback?: boolean;
+}
+
+export const FIELD_METRIC_LABELS: Record<FieldMetricId, string> = {
+    lcp: 'LCP',
+    inp: 'INP',
+    cls: 'CLS',
+    fcp: 'FCP',
+    ttfb: 'TTFB',
+};
+
+export const FIELD_CATEGORY_LABELS: Record<FieldCategory, string> = {
+    FAST: 'Bom',
+    AVERAGE: 'Precisa melhorar',
+    SLOW: 'Ruim',
+};
+
+// Chaves usadas pelo CrUX para cada métrica
+const CRUX_KEYS: Record<FieldMetricId, string> = {
+    lcp: 'LARGEST_CONTENTFUL_PAINT_MS',
+    inp: 'INTERACTION_TO_NEXT_PAINT',
+    cls: 'CUMULATIVE_LAYOUT_SHIFT_SCORE',
+    fcp: 'FIRST_CONTENTFUL_PAINT_MS',
+    ttfb: 'EXPERIMENTAL_TIME_TO_FIRST_BYTE',
+};
+
+// Classificação do modelo de métricas equivalente a cada categoria do CrUX
+const RATING_CATEGORIES: Record<MetricRating, FieldCategory> = {
+    good: 'FAST',
+    'needs-improvement': 'AVERAGE',
+    poor: 'SLOW',
+};
+
+const CATEGORY_RANK: Record<FieldCategory, number> = { FAST: 0, AVERAGE: 1, SLOW: 2 };
+
+/**
+ * Converte o loadingExperience do PageSpeed. Retorna null quando o CrUX não tem dados suficientes.
+ */
+export function parseLoadingExperience(experience?: CruxLoadingExperience): FieldData | null {
+    if (!experience?.metrics) return null;
+
+    const metrics: Partial<Record<FieldMetricId, FieldMetric>> = {};
+    (Object.keys(CRUX_KEYS) as FieldMetricId[]).forEach((metric) => {
+        const raw = experience.metrics?.[CRUX_KEYS[metric]];
+        if (!raw || typeof raw.percentile !== 'number') return;
+
+        const [good, needsImprovement, poor] = raw.distributions || [];
+        // O CrUX devolve o CLS multiplicado por 100
+        const percentile = metric === 'cls' ? raw.percentile / 100 : raw.percentile;
+        metrics[metric] = {
+            percentile,
+            distribution: {
+                good: good?.proportion || 0,
+                needsImprovement: needsImprovement?.proportion || 0,
+                poor: poor?.proportion || 0,
+            },
+            category: toCategory(raw.category) || categorize(metric, percentile),
+        };
+    });
+
+    if (Object.keys(metrics).length === 0) return null;
+
+    return {
+        overallCategory: toCategory(experience.overall_category),
+        metrics,
+        originFallback: Boolean(experience.origin_fallback),
+    };
+}
+
+/**
+ * Compara o p75 de campo com o valor de laboratório e explica as divergências de categoria.
+ * INP não tem equivalente de laboratório: é sinalizado quando o campo não está bom.
+ *
+ * @param lab Métricas de laboratório (getMetricValues)
+ */
+export function compareFieldWithLab(field: FieldData, lab: LabMetricValues): FieldLabComparison[] {
+    const comparisons: FieldLabComparison[] = [];
+
+    (['lcp', 'fcp', 'cls'] as const).forEach((metric) => {
+        const fieldMetric = field.metrics[metric];
+        const { value, rating } = lab[metric];
+        // Valor 0 no laboratório significa métrica não medida (exceto CLS)
+        if (!fieldMetric || !rating || (metric !== 'cls' && !value)) return;
+
+        const labCategory = RATING_CATEGORIES[rating];
+        const diff = CATEGORY_RANK[fieldMetric.category] - CATEGORY_RANK[labCategory];
+        if (diff === 0) return;
+
+        const label = FIELD_METRIC_LABELS[metric];
+        comparisons.push({
+            metric,
+            fieldCategory: fieldMetric.category,
+            labCategory,
+            message: diff > 0
+                ? `${label} está "${FIELD_CATEGORY_LABELS[labCategory]}" no laboratório, mas "${FIELD_CATEGORY_LABELS[fieldMetric.category]}" para usuários reais: o teste é um único carregamento controlado, enquanto os visitantes usam aparelhos e redes mais lentos${metric === 'cls' ? ' e interagem com a página (deslocamentos ao rolar e após cliques não aparecem no laboratório)' : ''}.`
+                : `${label} está "${FIELD_CATEGORY_LABELS[labCategory]}" no laboratório, mas "${FIELD_CATEGORY_LABELS[fieldMetric.category]}" para usuários reais: o laboratório simula a primeira visita, sem cache${metric === 'cls' ? ' (fontes e imagens chegam tarde e deslocam o layout)' : ' e com rede e CPU limitadas'}, e os visitantes reais costumam ter cache e conexões melhores.`,
+        });
+    });
+
+    const inp = field.metrics.inp;
+    if (inp && inp.category !== 'FAST') {
+        comparisons.push({
+            metric: 'inp',
+            fieldCategory: inp.category,
+            labCategory: null,
+            message: `INP de ${Math.round(inp.percentile)}ms ("${FIELD_CATEGORY_LABELS[inp.category]}") só é medido com usuários reais: o laboratório não interage com a página. O TBT (${formatMetricValue(lab.tbt)}) é o indicador de laboratório mais próximo.`,
+        });
+    }
+
+    return comparisons;
+}
+
+// Mesmos limites do CrUX, usados também para classificar o valor de laboratório
+function categorize(metric: FieldMetricId, value: number): FieldCategory {
+    return RATING_CATEGORIES[rateMetric(metric, value) || 'poor'];
+}
+
+function toCategory(value?: string): FieldCategory | null {
+    return value === 'FAST' || value === 'AVERAGE' || value === 'SLOW' ? value : null;
+}
@@ -5,11 +5,19 @@
 
 const requiredEnvs = [
     'GOOGLE_API_KEY',
+] as const;
+
+// Chaves opcionais: a funcionalidade correspondente tem alternativa local
+// (BuiltWith -> detecção local de tecnologias, PageSpeed -> medição local no Chromium)
+// EXPLORE_CHECKOUT=true ativa a exploração do caminho de compra (desativada por padrão: adiciona itens ao carrinho da loja)
+const optionalEnvs = [
     'BUILTWITH_API_KEY',
     'PAGESPEED_API_KEY',
+    'EXPLORE_CHECKOUT',
 ] as const;
 
-type EnvConfig = Record<typeof requiredEnvs[number], string>;
+type EnvConfig = Record<typeof requiredEnvs[number], string> &
+    Partial<Record<typeof optionalEnvs[number], string>>;
 
 function validateEnv(): EnvConfig {
     const missingEnvs: string[] = [];
@@ -24,6 +32,13 @@ function validateEnv(): EnvConfig {
         }
     }
 
+    for (const env of optionalEnvs) {
+        const value = process.env[env];
+        if (value) {
+            config[env] = value;
+        }
+    }
+
     if (missingEnvs.length > 0) {
         throw new Error(
             `❌ Variáveis de ambiente faltando: ${missingEnvs.join(', ')}\n` +
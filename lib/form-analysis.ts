@@ -0,0 +1,256 @@
+import type { Page } from 'puppeteer';
+
+/**
+ * Inventário de formulários da página (newsletter, login, busca, contato, cadastro e checkout)
+ * e pontos de atrito: quantidade de campos, obrigatórios, máscaras, teclado e autocomplete.
+ */
+
+export type FormKind = 'newsletter' | 'login' | 'search' | 'contact' | 'signup' | 'checkout' | 'other';
+
+export type FieldMask = 'cpf' | 'cnpj' | 'cep' | 'phone' | 'date' | 'card';
+
+export type FormIssueCode = 'long' | 'missing-autocomplete' | 'wrong-keyboard' | 'missing-mask';
+
+export interface FormField {
+    label: string;
+    type: string; // Tipo do input, "select" ou "textarea"
+    required: boolean;
+    autocomplete: string | null;
+    expectedAutocomplete: string | null; // Token recomendado (email, tel, postal-code...)
+    mask: FieldMask | null; // Dado brasileiro identificado no campo
+    masked: boolean; // Máscara de digitação aplicada (data-mask, placeholder formatado, pattern...)
+}
+
+export interface FormInventoryItem {
+    kind: FormKind;
+    action: string | null;
+    method: string;
+    fieldCount: number;
+    requiredCount: number;
+    inputTypes: Record<string, number>;
+    masks: FieldMask[];
+    submitText: string | null;
+    fields: FormField[];
+    issues: FormIssueCode[];
+}
+
+export interface FormsReport {
+    forms: FormInventoryItem[];
+    longForms: number;
+    formsMissingAutocomplete: number;
+}
+
+export const FORM_KIND_LABELS: Record<FormKind, string> = {
+    newsletter: 'Newsletter',
+    login: 'Login',
+    search: 'Busca',
+    contact: 'Contato',
+    signup: 'Cadastro',
+    checkout: 'Checkout',
+    other: 'Outro',
+};
+
+export const FORM_ISSUE_LABELS: Record<FormIssueCode, string> = {
+    'long': 'Formulário longo',
+    'missing-autocomplete': 'Sem autocomplete',
+    'wrong-keyboard': 'Teclado inadequado no celular',
+    'missing-mask': 'Sem máscara',
+};
+
+// Acima desta quantidade de campos visíveis o formulário é considerado longo para o seu tipo
+const MAX_FIELDS_BY_KIND: Record<FormKind, number> = {
+    newsletter: 2,
+    login: 3,
+    search: 2,
+    contact: 5,
+    signup: 8,
+    checkout: 12,
+    other: 6,
+};
+
+// Campos que o navegador consegue preencher sozinho quando o autocomplete está correto
+const AUTOCOMPLETE_RULES: { pattern: RegExp; token: string }[] = [
+    { pattern: /e-?mail/i, token: 'email' },
+    { pattern: /senha|password/i, token: 'current-password' },
+    { pattern: /cep|zip|postal/i, token: 'postal-code' },
+    { pattern: /telefone|celular|phone|fone|whats/i, token: 'tel' },
+    { pattern: /cart[aã]o|card.?number|cc-?num/i, token: 'cc-number' },
+    { pattern: /validade|expira|expiry|cc-?exp/i, token: 'cc-exp' },
+    { pattern: /sobrenome|last.?name|surname/i, token: 'family-name' },
+    { pattern: /\bnome\b|first.?name|\bname\b/i, token: 'name' },
+    { pattern: /endere[cç]o|logradouro|\brua\b|street|address/i, token: 'street-address' },
+    { pattern: /cidade|city/i, token: 'address-level2' },
+    { pattern: /estado|\buf\b|state/i, token: 'address-level1' },
+];
+
+/**
+ * Coleta e classifica todos os formulários da página.
+ */
+export async function extractForms(page: Page): Promise<FormsReport> {
+    const collected = await page.evaluate(() => {
+        const isVisible = (el: Element) => {
+            const style = window.getComputedStyle(el);
+            return el.getClientRects().length > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+        };
+
+        const getLabel = (el: HTMLElement) => {
+            const id = el.getAttribute('id');
+            const byFor = id ? document.querySelector(`label[for="${CSS.escape(id)}"]`) : null;
+            const text = (byFor as HTMLElement | null)?.innerText
+                || (el.closest('label') as HTMLElement | null)?.innerText
+                || el.getAttribute('aria-label')
+                || el.getAttribute('placeholder')
+                || el.getAttribute('name')
+                || '';
+            return text.replace(/\s+/g, ' ').trim().slice(0, 80);
+        };
+
+        // Formulários sem <form> (comuns em SPAs) costumam usar role="search" ou role="form"
+        const containers = [
+            ...Array.from(document.querySelectorAll('form')),
+            ...Array.from(document.querySelectorAll('[role="search"], [role="form"]')).filter((el) => !el.closest('form') && !el.querySelector('form')),
+        ].filter(isVisible);
+
+        return containers.map((container) => {
+            const controls = Array.from(container.querySelectorAll('input, select, textarea')) as (HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement)[];
+            const fields = controls
+                .filter((el) => {
+                    const type = (el.getAttribute('type') || '').toLowerCase();
+                    return !['hidden', 'submit', 'button', 'image', 'reset'].includes(type) && isVisible(el);
+                })
+                .map((el) => {
+                    const tag = el.tagName.toLowerCase();
+                    const placeholder = el.getAttribute('placeholder') || '';
+                    return {
+                        label: getLabel(el),
+                        hints: [el.getAttribute('name'), el.getAttribute('id'), placeholder, el.className].join(' '),
+                        type: tag === 'input' ? (el.getAttribute('type') || 'text').toLowerCase() : tag,
+                        inputMode: el.getAttribute('inputmode'),
+                        required: el.required || el.getAttribute('aria-required') === 'true',
+                        autocomplete: el.getAttribute('autocomplete'),
+                        // Indícios de máscara: atributos de bibliotecas, pattern ou placeholder já formatado
+                        masked: el.hasAttribute('data-mask') || el.hasAttribute('data-inputmask') || el.hasAttribute('pattern')
+                            || /[0-9_]{2,}[.\-/)][0-9_]/.test(placeholder),
+                    };
+                });
+
+            const submit = container.querySelector('button[type="submit"], input[type="submit"], button:not([type])') as HTMLButtonElement | HTMLInputElement | null;
+            const submitText = submit
+                ? ((submit as HTMLButtonElement).innerText || (submit as HTMLInputElement).value || submit.getAttribute('aria-label') || '').trim()
+                : '';
+
+            return {
+                role: container.getAttribute('role') || '',
+                action: container.getAttribute('action'),
+                method: (container.getAttribute('method') || 'get').toLowerCase(),
+                context: [container.getAttribute('id'), container.className, container.getAttribute('action'), submitText].join(' '),
+                submitText,
+                fields,
+            };
+        });
+    });
+
+    const forms: FormInventoryItem[] = collected
+        .filter((form) => form.fields.length > 0)
+        .map((form) => {
+            const fields: FormField[] = form.fields.map((field) => {
+                const text = `${field.label} ${field.hints}`;
+                return {
+                    label: field.label || field.type,
+                    type: field.type,
+                    required: field.required,
+                    autocomplete: field.autocomplete,
+                    expectedAutocomplete: getExpectedAutocomplete(text, field.type),
+                    mask: detectMask(text, field.type),
+                    masked: field.masked,
+                };
+            });
+
+            const kind = classifyForm(form.context, form.role, fields);
+            const inputTypes: Record<string, number> = {};
+            fields.forEach((field) => { inputTypes[field.type] = (inputTypes[field.type] || 0) + 1; });
+
+            const issues: FormIssueCode[] = [];
+            if (fields.length > MAX_FIELDS_BY_KIND[kind]) issues.push('long');
+            if (fields.some((field) => field.expectedAutocomplete && (!field.autocomplete || field.autocomplete === 'off'))) {
+                issues.push('missing-autocomplete');
+            }
+            if (form.fields.some((field, index) => hasWrongKeyboard(fields[index], field.inputMode))) {
+                issues.push('wrong-keyboard');
+            }
+            if (fields.some((field) => field.mask && field.mask !== 'card' && !field.masked)) {
+                issues.push('missing-mask');
+            }
+
+            return {
+                kind,
+                action: form.action,
+                method: form.method,
+                fieldCount: fields.length,
+                requiredCount: fields.filter((field) => field.required).length,
+                inputTypes,
+                masks: Array.from(new Set(fields.map((field) => field.mask).filter((mask): mask is FieldMask => mask !== null))),
+                submitText: form.submitText || null,
+                fields,
+                issues,
+            };
+        });
+
+    return {
+        forms,
+        longForms: forms.filter((form) => form.issues.includes('long')).length,
+        formsMissingAutocomplete: forms.filter((form) => form.issues.includes('missing-autocomplete')).length,
+    };
+}
+
+/**
+ * Classifica o formulário pelo contexto (id, classe, action, botão) e pelos campos.
+ */
+function classifyForm(context: string, role: string, fields: FormField[]): FormKind {
+    const hasPassword = fields.some((field) => field.type === 'password');
+    const hasCheckoutData = fields.some((field) => field.mask === 'cpf' || field.mask === 'cep' || field.mask === 'card');
+    const onlyContactFields = fields.every((field) => field.type === 'email' || /^(name|email)$/.test(field.expectedAutocomplete || ''));
+
+    if (role === 'search' || fields.some((field) => field.type === 'search') || /search|busca|pesquis/i.test(context)) {
+        if (fields.length <= 2) return 'search';
+    }
+    if (/checkout|pagamento|payment|finalizar|frete|shipping/i.test(context) || (hasCheckoutData && !hasPassword)) return 'checkout';
+    if (hasPassword) {
+        return /cadastr|regist|criar|sign.?up/i.test(context) || fields.length > 3 ? 'signup' : 'login';
+    }
+    if (/newsletter|news|inscrev|assin|cupom|desconto|subscribe/i.test(context) || (onlyContactFields && fields.length <= 2)) {
+        return 'newsletter';
+    }
+    if (/contato|contact|fale|mensagem|message/i.test(context) || fields.some((field) => field.type === 'textarea')) {
+        return 'contact';
+    }
+    return 'other';
+}
+
+function getExpectedAutocomplete(text: string, type: string): string | null {
+    if (type === 'email') return 'email';
+    if (type === 'tel') return 'tel';
+    if (type === 'password') return 'current-password';
+    if (type === 'search' || type === 'checkbox' || type === 'radio' || type === 'textarea') return null;
+    return AUTOCOMPLETE_RULES.find((rule) => rule.pattern.test(text))?.token ?? null;
+}
+
+function detectMask(text: string, type: string): FieldMask | null {
+    if (/\bcpf\b/i.test(text)) return 'cpf';
+    if (/cnpj/i.test(text)) return 'cnpj';
+    if (/\bcep\b|zip|postal/i.test(text)) return 'cep';
+    if (type === 'tel' || /telefone|celular|phone|whats/i.test(text)) return 'phone';
+    if (/cart[aã]o|card.?number|cc-?num/i.test(text)) return 'card';
+    if (/nascimento|birth/i.test(text)) return 'date';
+    return null;
+}
+
+/**
+ * Campos numéricos e de e-mail devem abrir o teclado adequado no celular.
+ */
+function hasWrongKeyboard(field: FormField, inputMode: string | null): boolean {
+    const numericKeyboard = ['tel', 'number'].includes(field.type) || inputMode === 'numeric' || inputMode === 'tel';
+    if (field.expectedAutocomplete === 'email') return field.type !== 'email' && inputMode !== 'email';
+    if (field.mask && field.mask !== 'date') return !numericKeyboard;
+    return false;
+}
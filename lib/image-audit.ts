@@ -0,0 +1,209 @@
+import type { NetworkReport } from './network-capture';
+
+/**
+ * Auditoria de otimização de imagens: formato, peso transferido, dimensões reais x exibidas,
+ * lazy loading e posição em relação à dobra. Estima quantos bytes poderiam ser economizados.
+ */
+
+export interface ImageDetail {
+    src: string;
+    alt: string;
+    currentSrc: string; // URL efetivamente carregada (considera srcset/picture)
+    naturalWidth: number;
+    naturalHeight: number;
+    renderedWidth: number;
+    renderedHeight: number;
+    loading: 'lazy' | 'eager' | 'auto';
+    scriptLazy: boolean; // Lazy loading por JavaScript (data-src, classe lazyload...)
+    aboveTheFold: boolean;
+}
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png' | 'gif' | 'svg' | 'ico' | 'desconhecido';
+
+export type ImageIssueCode = 'oversized' | 'legacy-format' | 'lazy-lcp' | 'missing-lazy';
+
+export interface AuditedImage {
+    url: string;
+    alt: string;
+    format: ImageFormat;
+    transferSize: number | null; // Bytes (null quando a requisição não foi registrada, ex: cache ou data URI)
+    natural: { width: number; height: number };
+    rendered: { width: number; height: number };
+    lazy: boolean;
+    aboveTheFold: boolean;
+    lcpCandidate: boolean;
+    estimatedSavings: number; // Bytes
+    issues: ImageIssueCode[];
+}
+
+export interface ImageAuditReport {
+    totalImages: number;
+    totalBytes: number;
+    estimatedSavings: number; // Bytes
+    oversized: number;
+    legacyFormat: number;
+    lazyLcpCandidates: number;
+    missingLazy: number;
+    images: AuditedImage[]; // Imagens com problema, ordenadas pela economia estimada
+    findings: { severity: 'erro' | 'aviso'; message: string }[];
+}
+
+export const IMAGE_ISSUE_LABELS: Record<ImageIssueCode, string> = {
+    'oversized': 'Maior que o exibido',
+    'legacy-format': 'Sem WebP/AVIF',
+    'lazy-lcp': 'LCP com lazy loading',
+    'missing-lazy': 'Sem lazy loading',
+};
+
+// Densidade de pixels considerada no redimensionamento (telas retina)
+const TARGET_PIXEL_RATIO = 2;
+
+// Imagem com área real maior que isso vezes a área necessária é considerada superdimensionada
+const OVERSIZE_FACTOR = 1.5;
+
+// Economia média ao converter JPEG/PNG/GIF para WebP
+const MODERN_FORMAT_SAVINGS = 0.3;
+
+// Imagens menores que isso (ícones, sprites) não entram nas recomendações de formato e lazy loading
+const MIN_RELEVANT_BYTES = 10 * 1024;
+
+// Imagens acima da dobra com pelo menos esta fração da área da maior são candidatas a LCP
+const LCP_CANDIDATE_AREA_RATIO = 0.5;
+
+const MAX_REPORTED_IMAGES = 50;
+
+/**
+ * Cruza os detalhes das imagens coletados na página com as requisições de rede.
+ *
+ * @param details Imagens extraídas do DOM (ScrapedData.images.details)
+ * @param network Requisições da página, usadas para obter peso e tipo MIME
+ */
+export function auditImages(details: ImageDetail[], network: NetworkReport): ImageAuditReport {
+    const requestsByUrl = new Map(
+        network.requests
+            .filter((request) => request.resourceType === 'Image' && !request.failed)
+            .map((request) => [request.url, request])
+    );
+
+    // A mesma imagem pode aparecer várias vezes (ex: carrossel clonado): audita uma vez só
+    const unique = new Map<string, ImageDetail>();
+    details.forEach((detail) => {
+        const url = detail.currentSrc || detail.src;
+        if (!url) return;
+        const existing = unique.get(url);
+        if (!existing || area(detail.renderedWidth, detail.renderedHeight) > area(existing.renderedWidth, existing.renderedHeight)) {
+            unique.set(url, detail);
+        }
+    });
+
+    const largestAboveFold = Math.max(
+        0,
+        ...Array.from(unique.values())
+            .filter((detail) => detail.aboveTheFold)
+            .map((detail) => area(detail.renderedWidth, detail.renderedHeight))
+    );
+
+    const audited: AuditedImage[] = Array.from(unique.entries()).map(([url, detail]) => {
+        const request = requestsByUrl.get(url);
+        const format = detectFormat(url, request?.mimeType);
+        const transferSize = request ? request.transferSize : null;
+        const lazy = detail.loading === 'lazy' || detail.scriptLazy;
+        const renderedArea = area(detail.renderedWidth, detail.renderedHeight);
+        const naturalArea = area(detail.naturalWidth, detail.naturalHeight);
+        const neededArea = renderedArea * TARGET_PIXEL_RATIO * TARGET_PIXEL_RATIO;
+        const lcpCandidate = detail.aboveTheFold && largestAboveFold > 0 && renderedArea >= largestAboveFold * LCP_CANDIDATE_AREA_RATIO;
+
+        const issues: ImageIssueCode[] = [];
+        let remainingBytes = transferSize ?? 0;
+
+        // Vetoriais não têm dimensão real fixa: não entram no redimensionamento
+        if (format !== 'svg' && renderedArea > 0 && naturalArea > neededArea * OVERSIZE_FACTOR) {
+            issues.push('oversized');
+            remainingBytes *= neededArea / naturalArea;
+        }
+        const relevant = (transferSize ?? 0) >= MIN_RELEVANT_BYTES;
+        if (relevant && (format === 'jpeg' || format === 'png' || format === 'gif')) {
+            issues.push('legacy-format');
+            remainingBytes *= 1 - MODERN_FORMAT_SAVINGS;
+        }
+        if (lcpCandidate && lazy) {
+            issues.push('lazy-lcp');
+        }
+        if (!detail.aboveTheFold && !lazy && relevant) {
+            issues.push('missing-lazy');
+        }
+
+        return {
+            url,
+            alt: detail.alt,
+            format,
+            transferSize,
+            natural: { width: detail.naturalWidth, height: detail.naturalHeight },
+            rendered: { width: detail.renderedWidth, height: detail.renderedHeight },
+            lazy,
+            aboveTheFold: detail.aboveTheFold,
+            lcpCandidate,
+            estimatedSavings: transferSize ? Math.round(transferSize - remainingBytes) : 0,
+            issues,
+        };
+    });
+
+    const count = (code: ImageIssueCode) => audited.filter((image) => image.issues.includes(code)).length;
+    const oversized = count('oversized');
+    const legacyFormat = count('legacy-format');
+    const lazyLcpCandidates = count('lazy-lcp');
+    const missingLazy = count('missing-lazy');
+    const totalBytes = audited.reduce((sum, image) => sum + (image.transferSize ?? 0), 0);
+    const estimatedSavings = audited.reduce((sum, image) => sum + image.estimatedSavings, 0);
+
+    const findings: ImageAuditReport['findings'] = [];
+    if (lazyLcpCandidates > 0) {
+        findings.push({
+            severity: 'erro',
+            message: `${lazyLcpCandidates} imagem(ns) principal(is) acima da dobra com lazy loading: atrasa o LCP.`,
+        });
+    }
+    if (oversized > 0) {
+        findings.push({ severity: 'erro', message: `${oversized} imagem(ns) com resolução bem maior que a exibida.` });
+    }
+    if (legacyFormat > 0) {
+        findings.push({ severity: 'aviso', message: `${legacyFormat} imagem(ns) em JPEG/PNG/GIF sem versão WebP ou AVIF.` });
+    }
+    if (missingLazy > 0) {
+        findings.push({ severity: 'aviso', message: `${missingLazy} imagem(ns) abaixo da dobra sem lazy loading.` });
+    }
+
+    return {
+        totalImages: audited.length,
+        totalBytes,
+        estimatedSavings,
+        oversized,
+        legacyFormat,
+        lazyLcpCandidates,
+        missingLazy,
+        images: audited
+            .filter((image) => image.issues.length > 0)
+            .sort((a, b) => b.estimatedSavings - a.estimatedSavings || Number(b.lcpCandidate) - Number(a.lcpCandidate))
+            .slice(0, MAX_REPORTED_IMAGES),
+        findings,
+    };
+}
+
+/**
+ * Identifica o formato pelo tipo MIME da resposta ou, na falta dele, pela extensão da URL.
+ */
+function detectFormat(url: string, mimeType?: string): ImageFormat {
+    const source = (mimeType || '').toLowerCase();
+    const fromMime = source.match(/image\/(avif|webp|jpeg|jpg|png|gif|svg|x-icon|vnd\.microsoft\.icon)/)?.[1];
+    const fromExtension = url.toLowerCase().split(/[?#]/)[0].match(/\.(avif|webp|jpe?g|png|gif|svg|ico)$/)?.[1];
+    const format = fromMime || fromExtension;
+
+    if (!format) return 'desconhecido';
+    if (format === 'jpg' || format === 'jpeg') return 'jpeg';
+    if (format === 'x-icon' || format === 'vnd.microsoft.icon') return 'ico';
+    return format as ImageFormat;
+}
+
+function area(width: number, height: number): number {
+    return Math.max(0, width) * Math.max(0, height);
+}
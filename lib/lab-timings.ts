@@ -0,0 +1,214 @@
+import { KnownDevices, type Browser } from 'puppeteer';
+import { MOBILE_DEVICE_NAME } from './mobile-emulation';
+
+/**
+ * Medição local de tempos de carregamento sob perfis de rede e CPU (aplicados via DevTools Protocol):
+ * Navigation Timing, FCP, LCP, CLS e TBT coletados com PerformanceObserver na própria página.
+ * Serve de dado de laboratório quando a API do PageSpeed não está disponível.
+ */
+
+export type NetworkProfileId = 'none' | '4g' | 'slow-3g';
+export type CpuProfileId = 'none' | 'mid-range-android' | 'low-end-android';
+
+export interface ThrottlingSelection {
+    network: NetworkProfileId;
+    cpu: CpuProfileId;
+}
+
+interface NetworkProfile {
+    label: string;
+    downloadKbps: number;
+    uploadKbps: number;
+    latencyMs: number;
+}
+
+interface CpuProfile {
+    label: string;
+    slowdown: number; // Multiplicador de lentidão da CPU (1 = sem limitação)
+}
+
+export interface LabTimings {
+    profile: ThrottlingSelection;
+    label: string;
+    ttfb: number | null; // ms
+    fcp: number | null; // ms
+    lcp: number | null; // ms
+    cls: number | null;
+    tbt: number | null; // ms (soma das long tasks acima de 50ms)
+    tti: number | null; // ms (aproximação: fim da última long task, nunca antes do FCP/DOMContentLoaded)
+    domContentLoaded: number | null; // ms
+    load: number | null; // ms
+    transferBytes: number;
+    screenshot?: string; // JPEG do que o visitante vê após SCREENSHOT_DELAY_MS
+    error?: string;
+}
+
+export const NETWORK_PROFILES: Record<Exclude<NetworkProfileId, 'none'>, NetworkProfile> = {
+    // Mesmos valores do Lighthouse mobile ("Slow 4G")
+    '4g': { label: '4G', downloadKbps: 1600, uploadKbps: 750, latencyMs: 150 },
+    // Mesmo preset do Chrome DevTools
+    'slow-3g': { label: '3G lento', downloadKbps: 400, uploadKbps: 400, latencyMs: 2000 },
+};
+
+export const CPU_PROFILES: Record<Exclude<CpuProfileId, 'none'>, CpuProfile> = {
+    // Lighthouse usa 4x para representar um Android intermediário
+    'mid-range-android': { label: 'Android intermediário', slowdown: 4 },
+    'low-end-android': { label: 'Android de entrada', slowdown: 6 },
+};
+
+// Momento da captura da tela: o que o visitante vê depois de 3 segundos
+const SCREENSHOT_DELAY_MS = 3000;
+
+// Limite por perfil (redes lentas levam bem mais que o carregamento sem limitação)
+const NAVIGATION_TIMEOUT = 90000;
+
+/**
+ * Descreve o perfil para exibição (ex: "4G · Android intermediário").
+ */
+export function getProfileLabel(profile: ThrottlingSelection): string {
+    const network = profile.network === 'none' ? 'Sem limitação de rede' : NETWORK_PROFILES[profile.network].label;
+    const cpu = profile.cpu === 'none' ? 'Desktop' : CPU_PROFILES[profile.cpu].label;
+    return `${network} · ${cpu}`;
+}
+
+/**
+ * Carrega a URL uma vez por perfil, sempre com cache vazio, e mede os tempos locais.
+ * Um perfil que falha é registrado com o erro e não interrompe os demais.
+ */
+export async function measureLabTimings(browser: Browser, url: string, profiles: ThrottlingSelection[]): Promise<LabTimings[]> {
+    const results: LabTimings[] = [];
+    for (const profile of profiles) {
+        const label = getProfileLabel(profile);
+        console.log(`⏱️ Medindo tempos locais (${label})...`);
+        try {
+            results.push(await measureProfile(browser, url, profile));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`⚠️ Falha na medição local (${label}):`, message);
+            results.push({
+                profile,
+                label,
+                ttfb: null,
+                fcp: null,
+                lcp: null,
+                cls: null,
+                tbt: null,
+                tti: null,
+                domContentLoaded: null,
+                load: null,
+                transferBytes: 0,
+                error: message,
+            });
+        }
+    }
+    return results;
+}
+
+async function measureProfile(browser: Browser, url: string, profile: ThrottlingSelection): Promise<LabTimings> {
+    const page = await browser.newPage();
+
+    try {
+        // Perfis de CPU Android usam também a tela, o user agent e o toque do celular
+        if (profile.cpu !== 'none') {
+            await page.emulate(KnownDevices[MOBILE_DEVICE_NAME]);
+        } else {
+            await page.setViewport({ width: 1920, height: 1080 });
+        }
+
+        const client = await page.createCDPSession();
+        await client.send('Network.enable');
+        await client.send('Network.setCacheDisabled', { cacheDisabled: true });
+        if (profile.network !== 'none') {
+            const network = NETWORK_PROFILES[profile.network];
+            await client.send('Network.emulateNetworkConditions', {
+                offline: false,
+                latency: network.latencyMs,
+                downloadThroughput: (network.downloadKbps * 1000) / 8,
+                uploadThroughput: (network.uploadKbps * 1000) / 8,
+            });
+        }
+        if (profile.cpu !== 'none') {
+            await client.send('Emulation.setCPUThrottlingRate', { rate: CPU_PROFILES[profile.cpu].slowdown });
+        }
+
+        // Observadores registrados antes de qualquer script da página
+        await page.evaluateOnNewDocument(installVitalsObservers);
+
+        const navigation = page.goto(url, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT });
+        // Evita rejeição não tratada enquanto aguarda o momento do screenshot
+        navigation.catch(() => undefined);
+
+        await new Promise((resolve) => setTimeout(resolve, SCREENSHOT_DELAY_MS));
+        const screenshot = await page.screenshot({ encoding: 'base64', type: 'jpeg', quality: 50 }).catch(() => null);
+
+        await navigation;
+        await page.waitForNetworkIdle({ idleTime: 1000, timeout: 15000 }).catch(() => undefined);
+
+        const timings = await page.evaluate(readVitals);
+
+        return {
+            profile,
+            label: getProfileLabel(profile),
+            ...timings,
+            screenshot: screenshot ? `data:image/jpeg;base64,${screenshot}` : undefined,
+        };
+    } finally {
+        await page.close();
+    }
+}
+
+/**
+ * Executada no contexto da página antes do carregamento: acumula LCP, CLS e long tasks.
+ */
+function installVitalsObservers() {
+    const vitals = { lcp: null as number | null, cls: 0, tbt: 0, lastLongTaskEnd: 0 };
+    (window as unknown as { __labVitals: typeof vitals }).__labVitals = vitals;
+
+    const observe = (type: string, callback: (entries: PerformanceEntryList) => void) => {
+        try {
+            new PerformanceObserver((list) => callback(list.getEntries())).observe({ type, buffered: true });
+        } catch {
+            // Tipo de entrada não suportado pelo navegador
+        }
+    };
+
+    observe('largest-contentful-paint', (entries) => {
+        const last = entries[entries.length - 1];
+        if (last) vitals.lcp = last.startTime;
+    });
+    observe('layout-shift', (entries) => {
+        entries.forEach((entry) => {
+            const shift = entry as PerformanceEntry & { value: number; hadRecentInput: boolean };
+            if (!shift.hadRecentInput) vitals.cls += shift.value;
+        });
+    });
+    observe('longtask', (entries) => {
+        entries.forEach((entry) => {
+            vitals.tbt += Math.max(0, entry.duration - 50);
+            vitals.lastLongTaskEnd = Math.max(vitals.lastLongTaskEnd, entry.startTime + entry.duration);
+        });
+    });
+}
+
+/**
+ * Executada no contexto da página após o carregamento: lê Navigation Timing e os observadores.
+ */
+function readVitals() {
+    const vitals = (window as unknown as { __labVitals?: { lcp: number | null; cls: number; tbt: number; lastLongTaskEnd: number } }).__labVitals;
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    const round = (value: number | null | undefined) => (value === null || value === undefined || value <= 0 ? null : Math.round(value));
+
+    return {
+        ttfb: round(navigation?.responseStart),
+        fcp: round(fcp?.startTime),
+        lcp: round(vitals?.lcp),
+        cls: vitals ? Math.round(vitals.cls * 1000) / 1000 : null,
+        tbt: vitals ? Math.round(vitals.tbt) : null,
+        tti: round(Math.max(fcp?.startTime || 0, navigation?.domContentLoadedEventEnd || 0, vitals?.lastLongTaskEnd || 0)),
+        domContentLoaded: round(navigation?.domContentLoadedEventEnd),
+        load: round(navigation?.loadEventEnd),
+        transferBytes: (navigation?.transferSize || 0) + resources.reduce((sum, resource) => sum + (resource.transferSize || 0), 0),
+    };
+}
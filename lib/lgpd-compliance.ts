@@ -0,0 +1,317 @@
+import type { Page } from 'puppeteer';
+import { getRootDomain, type NetworkReport } from './network-capture';
+
+/**
+ * Verificação de conformidade com a LGPD: banner de consentimento de cookies,
+ * cookies e rastreadores ativos antes de qualquer interação e acesso à política de privacidade.
+ * Como o scraper não interage com a página, tudo o que é registrado aqui aconteceu antes do consentimento.
+ */
+
+export interface ConsentBanner {
+    found: boolean;
+    provider: string | null; // Plataforma de consentimento (OneTrust, Cookiebot...) ou null para banner próprio
+    text: string; // Trecho do texto do banner
+    hasAcceptButton: boolean;
+    hasRejectButton: boolean; // Opção de recusar (ou aceitar apenas os necessários)
+    hasSettingsButton: boolean;
+}
+
+export interface CookieEntry {
+    name: string;
+    domain: string;
+    thirdParty: boolean;
+    tracking: boolean;
+    vendor?: string; // Fornecedor do cookie de rastreamento (ex: Google Analytics)
+    expiresInDays: number | null; // null = cookie de sessão
+}
+
+export interface TrackerHit {
+    name: string;
+    domain: string;
+    requests: number;
+    firstRequestAt: number; // ms desde o início do carregamento
+}
+
+export interface PrivacyPolicyCheck {
+    found: boolean;
+    url: string | null;
+    label: string;
+    status: number | null;
+    reachable: boolean;
+}
+
+export interface LgpdFinding {
+    severity: 'erro' | 'aviso';
+    message: string;
+}
+
+export interface LgpdReport {
+    consentBanner: ConsentBanner;
+    cookiesBeforeConsent: CookieEntry[];
+    trackersBeforeConsent: TrackerHit[];
+    metaPixel: {
+        scriptLoaded: boolean;
+        firedBeforeConsent: boolean; // Requisições para facebook.com/tr antes de qualquer interação
+        events: number;
+    };
+    privacyPolicy: PrivacyPolicyCheck;
+    findings: LgpdFinding[];
+    compliant: boolean; // Nenhum achado de severidade 'erro'
+}
+
+// Plataformas de consentimento conhecidas (CMPs) e seus contêineres
+const CONSENT_PLATFORMS: Record<string, string> = {
+    'OneTrust': '#onetrust-banner-sdk, #onetrust-consent-sdk',
+    'Cookiebot': '#CybotCookiebotDialog',
+    'Didomi': '#didomi-host, #didomi-notice',
+    'CookieYes': '.cky-consent-container, #cookie-law-info-bar',
+    'Usercentrics': '#usercentrics-root, #usercentrics-cmp-ui',
+    'Complianz': '.cmplz-cookiebanner',
+    'Quantcast': '.qc-cmp2-container',
+    'TrustArc': '#truste-consent-track',
+    'Osano': '.osano-cm-window',
+    'iubenda': '#iubenda-cs-banner',
+    'AdOpt': '#adopt-controller-button, #adopt-banner',
+    'Cookie Notice': '#cookie-notice',
+};
+
+// Domínios raiz de rastreamento (analytics, publicidade e gravação de sessão)
+const TRACKING_DOMAINS: Record<string, string> = {
+    'facebook.net': 'Meta Pixel',
+    'facebook.com': 'Meta Pixel',
+    'google-analytics.com': 'Google Analytics',
+    'googletagmanager.com': 'Google Tag Manager',
+    'doubleclick.net': 'Google Ads',
+    'googleadservices.com': 'Google Ads',
+    'googlesyndication.com': 'Google Ads',
+    'tiktok.com': 'TikTok Pixel',
+    'hotjar.com': 'Hotjar',
+    'clarity.ms': 'Microsoft Clarity',
+    'bing.com': 'Microsoft Ads',
+    'criteo.com': 'Criteo',
+    'criteo.net': 'Criteo',
+    'licdn.com': 'LinkedIn Insight',
+    'pinterest.com': 'Pinterest Tag',
+    'taboola.com': 'Taboola',
+    'outbrain.com': 'Outbrain',
+    'hs-analytics.net': 'HubSpot',
+    'hs-scripts.com': 'HubSpot',
+    'rdstation.com.br': 'RD Station',
+};
+
+// Cookies de rastreamento conhecidos (prefixos/nome exato)
+const TRACKING_COOKIES: [RegExp, string][] = [
+    [/^_ga($|_)|^_gid$|^_gat/, 'Google Analytics'],
+    [/^_gcl_|^IDE$|^test_cookie$/, 'Google Ads'],
+    [/^_fbp$|^_fbc$|^fr$/, 'Meta Pixel'],
+    [/^_ttp$|^_tt_enable_cookie$/, 'TikTok Pixel'],
+    [/^_hj/, 'Hotjar'],
+    [/^_clck$|^_clsk$|^CLID$/, 'Microsoft Clarity'],
+    [/^_uetsid$|^_uetvid$/, 'Microsoft Ads'],
+    [/^__hstc$|^hubspotutk$/, 'HubSpot'],
+    [/^cto_bundle$/, 'Criteo'],
+    [/^_pin_unauth$/, 'Pinterest Tag'],
+    [/^rdtrk$|^__trf\.src$/, 'RD Station'],
+];
+
+/**
+ * Verifica a postura de LGPD da página logo após o carregamento, antes de qualquer interação.
+ *
+ * @param page Aba com a página carregada
+ * @param siteUrl URL analisada (define o que é primeira ou terceira parte)
+ * @param network Requisições registradas durante o carregamento
+ * @param pixelScriptDetected Script do Meta Pixel encontrado no HTML (scripts.pixel)
+ */
+export async function checkLgpdCompliance(
+    page: Page,
+    siteUrl: string,
+    network: NetworkReport,
+    pixelScriptDetected: boolean
+): Promise<LgpdReport> {
+    const siteDomain = getRootDomain(new URL(siteUrl).hostname);
+
+    const { banner, policyLink } = await page.evaluate((platforms: Record<string, string>) => {
+        const isVisible = (el: Element) => {
+            const style = window.getComputedStyle(el);
+            return el.getClientRects().length > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+        };
+
+        // 1. Banner de uma plataforma conhecida ou elemento fixo com texto sobre cookies
+        let provider: string | null = null;
+        let container: Element | null = null;
+        for (const [name, selector] of Object.entries(platforms)) {
+            const el = document.querySelector(selector);
+            if (el) {
+                provider = name;
+                container = el;
+                break;
+            }
+        }
+        if (!container) {
+            container = Array.from(document.querySelectorAll('div, section, aside, dialog, form, [role="dialog"]'))
+                .find((el) => {
+                    const position = window.getComputedStyle(el).position;
+                    if (position !== 'fixed' && position !== 'sticky') return false;
+                    const text = (el as HTMLElement).innerText || '';
+                    return text.length < 1500 && /cookie|lgpd|privacidade|dados pessoais/i.test(text) && isVisible(el);
+                }) || null;
+        }
+
+        const buttonTexts = container
+            ? Array.from(container.querySelectorAll('button, a, [role="button"], input[type="button"], input[type="submit"]'))
+                .map((el) => ((el as HTMLElement).innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label') || '').trim())
+            : [];
+
+        // 2. Link para a política de privacidade
+        const policy = Array.from(document.querySelectorAll('a[href]')).find((link) => {
+            const text = `${(link as HTMLElement).innerText} ${link.getAttribute('href')}`;
+            return /pol[ií]tica de privacidade|privacidade|privacy|prote[cç][aã]o de dados|lgpd/i.test(text);
+        }) as HTMLAnchorElement | undefined;
+
+        return {
+            banner: {
+                found: !!container && (!!provider || isVisible(container)),
+                provider,
+                text: container ? ((container as HTMLElement).innerText || '').trim().slice(0, 300) : '',
+                hasAcceptButton: buttonTexts.some((text) => /aceit|concord|permit|entendi|^ok$|prosseguir|continuar|accept|allow/i.test(text)),
+                hasRejectButton: buttonTexts.some((text) => /rejeit|recus|negar|não aceito|apenas (os )?(necessários|essenciais)|reject|decline/i.test(text)),
+                hasSettingsButton: buttonTexts.some((text) => /configur|personaliz|prefer[eê]ncias|gerenciar|settings|customize/i.test(text)),
+            },
+            policyLink: policy ? { url: policy.href, label: policy.innerText.trim().slice(0, 80) } : null,
+        };
+    }, CONSENT_PLATFORMS);
+
+    const cookiesBeforeConsent = await collectCookies(page, siteDomain);
+    const trackersBeforeConsent = collectTrackers(network);
+
+    const pixelRequests = network.requests.filter((request) => /facebook\.com\/tr[/?]/.test(request.url));
+    const metaPixel = {
+        scriptLoaded: pixelScriptDetected || network.requests.some((request) => /connect\.facebook\.net\/.*fbevents\.js/.test(request.url)),
+        firedBeforeConsent: pixelRequests.length > 0,
+        events: pixelRequests.length,
+    };
+
+    const privacyPolicy = await checkPrivacyPolicy(policyLink);
+
+    const findings = buildFindings(banner, cookiesBeforeConsent, trackersBeforeConsent, metaPixel, privacyPolicy);
+
+    return {
+        consentBanner: banner,
+        cookiesBeforeConsent,
+        trackersBeforeConsent,
+        metaPixel,
+        privacyPolicy,
+        findings,
+        compliant: !findings.some((finding) => finding.severity === 'erro'),
+    };
+}
+
+/**
+ * Lista todos os cookies do navegador (inclusive de terceiros) e marca os de rastreamento.
+ */
+async function collectCookies(page: Page, siteDomain: string): Promise<CookieEntry[]> {
+    const client = await page.createCDPSession();
+    try {
+        const { cookies } = await client.send('Storage.getCookies');
+        const now = Date.now() / 1000;
+
+        return cookies.map((cookie) => {
+            const vendor = TRACKING_COOKIES.find(([pattern]) => pattern.test(cookie.name))?.[1];
+            const domain = cookie.domain.replace(/^\./, '');
+            return {
+                name: cookie.name,
+                domain,
+                thirdParty: getRootDomain(domain) !== siteDomain,
+                tracking: !!vendor,
+                vendor,
+                expiresInDays: cookie.session || cookie.expires <= 0 ? null : Math.round((cookie.expires - now) / 86400),
+            };
+        });
+    } finally {
+        await client.detach().catch(() => undefined);
+    }
+}
+
+/**
+ * Agrupa as requisições para domínios de rastreamento.
+ */
+function collectTrackers(network: NetworkReport): TrackerHit[] {
+    const trackers = new Map<string, TrackerHit>();
+
+    network.requests.forEach((request) => {
+        const name = TRACKING_DOMAINS[request.domain];
+        if (!name || !request.thirdParty) return;
+        const hit = trackers.get(name) || { name, domain: request.domain, requests: 0, firstRequestAt: request.startTime };
+        hit.requests++;
+        hit.firstRequestAt = Math.min(hit.firstRequestAt, request.startTime);
+        trackers.set(name, hit);
+    });
+
+    return Array.from(trackers.values()).sort((a, b) => a.firstRequestAt - b.firstRequestAt);
+}
+
+/**
+ * Verifica se o link da política de privacidade responde com sucesso.
+ */
+async function checkPrivacyPolicy(link: { url: string; label: string } | null): Promise<PrivacyPolicyCheck> {
+    if (!link) return { found: false, url: null, label: '', status: null, reachable: false };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    try {
+        const response = await fetch(link.url, { signal: controller.signal, redirect: 'follow' });
+        await response.body?.cancel().catch(() => undefined);
+        return { found: true, ...link, status: response.status, reachable: response.ok };
+    } catch (error) {
+        console.warn('⚠️ Falha ao acessar a política de privacidade:', error instanceof Error ? error.message : error);
+        return { found: true, ...link, status: null, reachable: false };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+function buildFindings(
+    banner: ConsentBanner,
+    cookies: CookieEntry[],
+    trackers: TrackerHit[],
+    metaPixel: LgpdReport['metaPixel'],
+    privacyPolicy: PrivacyPolicyCheck
+): LgpdFinding[] {
+    const findings: LgpdFinding[] = [];
+    const trackingCookies = cookies.filter((cookie) => cookie.tracking);
+    const trackerNames = trackers.map((tracker) => tracker.name).join(', ');
+
+    if (!banner.found) {
+        findings.push({
+            severity: trackers.length > 0 || trackingCookies.length > 0 ? 'erro' : 'aviso',
+            message: 'Nenhum banner de consentimento de cookies encontrado.',
+        });
+    } else if (!banner.hasRejectButton) {
+        findings.push({ severity: 'aviso', message: 'O banner de cookies não oferece a opção de recusar.' });
+    }
+
+    if (trackers.length > 0) {
+        findings.push({ severity: 'erro', message: `Rastreadores carregados antes do consentimento: ${trackerNames}.` });
+    }
+    if (metaPixel.firedBeforeConsent) {
+        findings.push({ severity: 'erro', message: `O Meta Pixel disparou ${metaPixel.events} evento(s) antes do consentimento.` });
+    }
+    if (trackingCookies.length > 0) {
+        findings.push({
+            severity: 'erro',
+            message: `${trackingCookies.length} cookie(s) de rastreamento gravados antes do consentimento (${trackingCookies.map((cookie) => cookie.name).join(', ')}).`,
+        });
+    }
+
+    if (!privacyPolicy.found) {
+        findings.push({ severity: 'erro', message: 'Link para a política de privacidade não encontrado.' });
+    } else if (!privacyPolicy.reachable) {
+        findings.push({
+            severity: 'erro',
+            message: `A política de privacidade não está acessível${privacyPolicy.status ? ` (HTTP ${privacyPolicy.status})` : ''}.`,
+        });
+    }
+
+    return findings;
+}
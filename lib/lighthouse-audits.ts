@@ -0,0 +1,161 @@
+/**
+ * Extração das auditorias do Lighthouse (resposta do PageSpeed Insights) que apontam gargalos:
+ * oportunidades com economia estimada (recursos que bloqueiam a renderização, JavaScript não usado,
+ * imagens não otimizadas...) e diagnósticos (código de terceiros, trabalho na thread principal...).
+ */
+
+export type PerformanceAuditKind = 'opportunity' | 'diagnostic';
+
+export interface PerformanceAuditItem {
+    label: string; // URL do recurso, nome do terceiro ou trecho do elemento
+    wastedBytes?: number;
+    wastedMs?: number;
+    totalBytes?: number;
+    blockingTime?: number; // ms (código de terceiros)
+}
+
+export interface PerformanceAudit {
+    id: string;
+    kind: PerformanceAuditKind;
+    title: string;
+    description: string; // Sem os links "Saiba mais" do Lighthouse
+    score: number | null; // 0-1 (null em diagnósticos informativos)
+    displayValue?: string;
+    savingsMs: number;
+    savingsBytes: number;
+    items: PerformanceAuditItem[];
+}
+
+// Formato (parcial) de uma auditoria no lighthouseResult
+export interface LighthouseAuditResult {
+    id: string;
+    title: string;
+    description: string;
+    score: number | null;
+    scoreDisplayMode?: string; // numeric, binary, metricSavings, informative, notApplicable, manual, error
+    displayValue?: string;
+    numericValue?: number;
+    metricSavings?: Record<string, number>;
+    details?: {
+        type?: string;
+        overallSavingsMs?: number;
+        overallSavingsBytes?: number;
+        items?: Record<string, unknown>[];
+    };
+}
+
+export interface LighthouseAuditRef {
+    id: string;
+    weight: number;
+    group?: string;
+}
+
+export const PERFORMANCE_AUDIT_KIND_LABELS: Record<PerformanceAuditKind, string> = {
+    opportunity: 'Oportunidade',
+    diagnostic: 'Diagnóstico',
+};
+
+// O Lighthouse considera aprovada a auditoria com score >= 0.9
+const PASSING_SCORE = 0.9;
+
+// Grupos que não são correções: as próprias métricas e auditorias internas (screenshots, rede bruta)
+const IGNORED_GROUPS = ['metrics', 'hidden'];
+
+const MAX_AUDITS = 20;
+const MAX_ITEMS_PER_AUDIT = 10;
+
+/**
+ * Lista as auditorias reprovadas (e os diagnósticos informativos com resultado) da categoria
+ * de performance, ordenadas por prioridade de correção.
+ */
+export function extractLighthouseAudits(
+    audits: Record<string, LighthouseAuditResult>,
+    auditRefs: LighthouseAuditRef[] = []
+): PerformanceAudit[] {
+    const ids = auditRefs.length > 0
+        ? auditRefs.filter((ref) => !IGNORED_GROUPS.includes(ref.group || '')).map((ref) => ref.id)
+        : Object.keys(audits);
+
+    const results: PerformanceAudit[] = [];
+    for (const id of ids) {
+        const audit = audits[id];
+        if (!audit || !isFailing(audit)) continue;
+
+        const savingsMs = Math.round(audit.details?.overallSavingsMs || getMetricSavingsMs(audit.metricSavings));
+        const savingsBytes = Math.round(audit.details?.overallSavingsBytes || 0);
+
+        results.push({
+            id,
+            kind: audit.details?.type === 'opportunity' || savingsMs > 0 || savingsBytes > 0 ? 'opportunity' : 'diagnostic',
+            title: audit.title,
+            description: stripMarkdownLinks(audit.description || ''),
+            score: audit.score,
+            displayValue: audit.displayValue,
+            savingsMs,
+            savingsBytes,
+            items: (audit.details?.items || []).map(toAuditItem).filter((item): item is PerformanceAuditItem => item !== null).slice(0, MAX_ITEMS_PER_AUDIT),
+        });
+    }
+
+    return prioritizeAudits(results).slice(0, MAX_AUDITS);
+}
+
+/**
+ * Oportunidades com maior economia de tempo primeiro, depois de bytes; diagnósticos por score.
+ */
+export function prioritizeAudits(audits: PerformanceAudit[]): PerformanceAudit[] {
+    return [...audits].sort((a, b) =>
+        b.savingsMs - a.savingsMs ||
+        b.savingsBytes - a.savingsBytes ||
+        (a.score ?? 1) - (b.score ?? 1)
+    );
+}
+
+function isFailing(audit: LighthouseAuditResult): boolean {
+    switch (audit.scoreDisplayMode) {
+        case 'notApplicable':
+        case 'manual':
+        case 'error':
+            return false;
+        case 'informative':
+            // Ex: resumo de terceiros ("O código de terceiros bloqueou a thread principal por 450 ms")
+            return Boolean(audit.displayValue) && (audit.details?.items?.length || 0) > 0;
+        default:
+            return audit.score !== null && audit.score < PASSING_SCORE;
+    }
+}
+
+// Economia estimada por métrica (Lighthouse 11+): usa o maior ganho de tempo, CLS não é tempo
+function getMetricSavingsMs(metricSavings?: Record<string, number>): number {
+    if (!metricSavings) return 0;
+    return Math.max(0, ...Object.entries(metricSavings).filter(([metric]) => metric !== 'CLS').map(([, value]) => value || 0));
+}
+
+function toAuditItem(item: Record<string, unknown>): PerformanceAuditItem | null {
+    const entity = item.entity as { text?: string } | string | undefined;
+    const node = item.node as { snippet?: string; nodeLabel?: string } | undefined;
+    const source = item.source as { url?: string } | undefined;
+    const label =
+        (typeof item.url === 'string' && item.url) ||
+        (typeof entity === 'string' ? entity : entity?.text) ||
+        node?.nodeLabel ||
+        node?.snippet ||
+        source?.url ||
+        (typeof item.label === 'string' && item.label) ||
+        (typeof item.groupLabel === 'string' && item.groupLabel);
+    if (!label) return null;
+
+    const number = (value: unknown) => (typeof value === 'number' && value > 0 ? Math.round(value) : undefined);
+    return {
+        label: label.slice(0, 300),
+        wastedBytes: number(item.wastedBytes),
+        wastedMs: number(item.wastedMs),
+        totalBytes: number(item.totalBytes ?? item.transferSize),
+        blockingTime: number(item.blockingTime),
+    };
+}
+
+// "Saiba mais em [web.dev](https://...)" vira "Saiba mais em web.dev"
+function stripMarkdownLinks(text: string): string {
+    return text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').trim();
+}
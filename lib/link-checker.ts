@@ -0,0 +1,300 @@
+import type { ScrapedData } from './scraper';
+import { normalizeUrl } from './page-classifier';
+import { runWithConcurrency } from './concurrency-helper';
+
+/**
+ * Verificação de links: status HTTP, cadeia de redirecionamentos e tempo de resposta
+ * dos links encontrados nas páginas analisadas e das variações da URL inicial (http/https, www/sem www).
+ */
+
+export interface RedirectHop {
+    url: string;
+    status: number;
+}
+
+export interface LinkCheckResult {
+    url: string;
+    finalUrl: string;
+    status: number | null; // Status final (null = falha de rede ou timeout)
+    redirects: RedirectHop[]; // Respostas 3xx seguidas até a URL final
+    responseTime: number; // ms, somando todos os saltos
+    internal: boolean;
+    foundOn: string[]; // Páginas onde o link aparece (até 3)
+    error?: string;
+    loop: boolean;
+}
+
+export interface EntryPointCheck extends LinkCheckResult {
+    variant: string; // Ex: 'http://www'
+}
+
+export type LinkFindingType = 'broken' | 'slow' | 'redirect-loop' | 'redirect-chain' | 'no-https-redirect' | 'no-host-redirect';
+
+export interface LinkFinding {
+    type: LinkFindingType;
+    severity: 'erro' | 'aviso';
+    message: string;
+    url: string;
+}
+
+export interface LinkCheckReport {
+    checkedAt: string;
+    totalLinks: number; // Links únicos encontrados (http/https)
+    checked: number; // Links efetivamente verificados (limitado por maxLinks)
+    broken: number;
+    slow: number;
+    redirected: number;
+    entryPoints: EntryPointCheck[];
+    results: LinkCheckResult[];
+    findings: LinkFinding[];
+}
+
+export interface LinkCheckOptions {
+    concurrency: number;
+    maxLinks: number;
+    timeout: number; // ms por requisição
+    slowThreshold: number; // ms
+}
+
+const DEFAULT_OPTIONS: LinkCheckOptions = {
+    concurrency: 5,
+    maxLinks: 150,
+    timeout: 10000,
+    slowThreshold: 3000,
+};
+
+// Limite de saltos antes de considerar a cadeia um loop
+const MAX_REDIRECTS = 10;
+
+// Alguns servidores bloqueiam o user-agent padrão do Node
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+/**
+ * Verifica os links únicos de todas as páginas analisadas e as variações da URL inicial.
+ * Links internos têm prioridade quando o total passa do limite.
+ *
+ * @param scrapedData Resultado do scraping (inclui as páginas internas do crawl)
+ * @param options Limites de concorrência, quantidade e tempo
+ */
+export async function checkLinks(
+    scrapedData: ScrapedData,
+    options: Partial<LinkCheckOptions> = {}
+): Promise<LinkCheckReport> {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    console.log(`🔗 Iniciando verificação de links para: ${scrapedData.url}`);
+
+    const pages = [scrapedData, ...(scrapedData.crawl?.pages || [])];
+    const links = new Map<string, { internal: boolean; foundOn: string[] }>();
+
+    pages.forEach((page) => {
+        const add = (href: string, internal: boolean) => {
+            if (!/^https?:/i.test(href)) return; // Ignora mailto:, tel:, javascript:
+            const url = normalizeUrl(href);
+            const entry = links.get(url) || { internal, foundOn: [] };
+            if (entry.foundOn.length < 3 && !entry.foundOn.includes(page.url)) entry.foundOn.push(page.url);
+            links.set(url, entry);
+        };
+        page.links.internal.forEach((href) => add(href, true));
+        page.links.external.forEach((href) => add(href, false));
+    });
+
+    const selected = Array.from(links.entries())
+        .sort(([, a], [, b]) => Number(b.internal) - Number(a.internal))
+        .slice(0, config.maxLinks);
+
+    const entryPoints = await checkEntryPoints(scrapedData.url, config);
+
+    const results = await runWithConcurrency(selected, config.concurrency, async ([url, info]) => ({
+        ...(await followRedirects(url, config.timeout)),
+        internal: info.internal,
+        foundOn: info.foundOn,
+    }));
+
+    const findings = buildFindings(results, entryPoints, config.slowThreshold);
+
+    console.log(`✅ Verificação de links concluída: ${results.length} links, ${findings.length} problemas.`);
+
+    return {
+        checkedAt: new Date().toISOString(),
+        totalLinks: links.size,
+        checked: results.length,
+        broken: results.filter(isBroken).length,
+        slow: results.filter((result) => isSlow(result, config.slowThreshold)).length,
+        redirected: results.filter((result) => result.redirects.length > 0).length,
+        entryPoints,
+        results,
+        findings,
+    };
+}
+
+/**
+ * Segue os redirecionamentos manualmente para registrar cada salto.
+ */
+async function followRedirects(
+    url: string,
+    timeout: number
+): Promise<Omit<LinkCheckResult, 'internal' | 'foundOn'>> {
+    const redirects: RedirectHop[] = [];
+    const seen = new Set<string>();
+    // Cookies por host, como o navegador: redirecionamentos que gravam um cookie e voltam (A → B → A) não são loop
+    const cookies = new Map<string, Map<string, string>>();
+    const startedAt = Date.now();
+    let current = url;
+
+    try {
+        while (true) {
+            const { hostname } = new URL(current);
+            const cookieHeader = Array.from(cookies.get(hostname) || [], ([name, value]) => `${name}=${value}`).join('; ');
+            // Loop só quando a mesma URL volta com os mesmos cookies
+            const state = `${current}\n${cookieHeader}`;
+            if (seen.has(state) || redirects.length >= MAX_REDIRECTS) {
+                return { url, finalUrl: current, status: null, redirects, responseTime: Date.now() - startedAt, loop: true };
+            }
+            seen.add(state);
+
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), timeout);
+            const response = await fetch(current, {
+                method: 'GET',
+                redirect: 'manual',
+                signal: controller.signal,
+                headers: { 'User-Agent': USER_AGENT, ...(cookieHeader ? { Cookie: cookieHeader } : {}) },
+            }).finally(() => clearTimeout(timeoutId));
+
+            // Só o status interessa: descarta o corpo sem baixá-lo
+            await response.body?.cancel().catch(() => undefined);
+
+            response.headers.getSetCookie().forEach((header) => {
+                const [pair] = header.split(';');
+                const separator = pair.indexOf('=');
+                if (separator <= 0) return;
+                const jar = cookies.get(hostname) || new Map<string, string>();
+                jar.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+                cookies.set(hostname, jar);
+            });
+
+            const location = response.headers.get('location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                redirects.push({ url: current, status: response.status });
+                current = new URL(location, current).toString();
+                continue;
+            }
+
+            return { url, finalUrl: current, status: response.status, redirects, responseTime: Date.now() - startedAt, loop: false };
+        }
+    } catch (error) {
+        const aborted = error instanceof Error && error.name === 'AbortError';
+        return {
+            url,
+            finalUrl: current,
+            status: null,
+            redirects,
+            responseTime: Date.now() - startedAt,
+            error: aborted ? `Timeout após ${timeout / 1000}s` : error instanceof Error ? error.message : String(error),
+            loop: false,
+        };
+    }
+}
+
+/**
+ * Verifica as variações de protocolo e de www da URL inicial.
+ */
+async function checkEntryPoints(siteUrl: string, config: LinkCheckOptions): Promise<EntryPointCheck[]> {
+    const { hostname, pathname, search } = new URL(siteUrl);
+    const apex = hostname.replace(/^www\./, '');
+    const variants = ['http', 'https'].flatMap((protocol) =>
+        [apex, `www.${apex}`].map((host) => ({
+            variant: `${protocol}://${host === apex ? '' : 'www.'}`,
+            url: `${protocol}://${host}${pathname}${search}`,
+        }))
+    );
+
+    return runWithConcurrency(variants, config.concurrency, async ({ variant, url }) => ({
+        ...(await followRedirects(url, config.timeout)),
+        variant,
+        internal: true,
+        foundOn: [],
+    }));
+}
+
+function isBroken(result: LinkCheckResult): boolean {
+    return !result.loop && (result.status === null || result.status >= 400);
+}
+
+function isSlow(result: LinkCheckResult, slowThreshold: number): boolean {
+    return !result.loop && result.status !== null && result.responseTime > slowThreshold;
+}
+
+/**
+ * Converte os resultados em achados para o relatório.
+ */
+function buildFindings(results: LinkCheckResult[], entryPoints: EntryPointCheck[], slowThreshold: number): LinkFinding[] {
+    const findings: LinkFinding[] = [];
+
+    results.forEach((result) => {
+        if (result.loop) {
+            findings.push({ type: 'redirect-loop', severity: 'erro', message: 'Loop de redirecionamento.', url: result.url });
+        } else if (isBroken(result)) {
+            findings.push({
+                type: 'broken',
+                severity: result.internal ? 'erro' : 'aviso',
+                message: result.status ? `Link quebrado (HTTP ${result.status}).` : `Link inacessível: ${result.error}.`,
+                url: result.url,
+            });
+        } else if (result.redirects.length > 1) {
+            findings.push({
+                type: 'redirect-chain',
+                severity: 'aviso',
+                message: `Cadeia de ${result.redirects.length} redirecionamentos até ${result.finalUrl}.`,
+                url: result.url,
+            });
+        }
+
+        if (isSlow(result, slowThreshold)) {
+            findings.push({
+                type: 'slow',
+                severity: 'aviso',
+                message: `Resposta lenta (${(result.responseTime / 1000).toFixed(1)}s).`,
+                url: result.url,
+            });
+        }
+    });
+
+    // Variações da URL inicial
+    entryPoints.forEach((entry) => {
+        if (entry.loop) {
+            findings.push({ type: 'redirect-loop', severity: 'erro', message: `Loop de redirecionamento na variação ${entry.variant}.`, url: entry.url });
+            return;
+        }
+        if (entry.status === null) return; // Variação sem DNS (ex: www inexistente) não é um problema
+
+        if (entry.url.startsWith('http:') && entry.finalUrl.startsWith('http:')) {
+            findings.push({ type: 'no-https-redirect', severity: 'erro', message: `A variação ${entry.variant} não redireciona para https://.`, url: entry.url });
+        }
+        if (entry.redirects.length > 1) {
+            findings.push({
+                type: 'redirect-chain',
+                severity: 'aviso',
+                message: `A variação ${entry.variant} passa por ${entry.redirects.length} redirecionamentos.`,
+                url: entry.url,
+            });
+        }
+    });
+
+    // www e sem www respondendo sem redirecionar duplicam o conteúdo para os buscadores
+    const finalHosts = new Set(
+        entryPoints
+            .filter((entry) => entry.url.startsWith('https:') && entry.status !== null && entry.status < 400)
+            .map((entry) => new URL(entry.finalUrl).hostname)
+    );
+    if (finalHosts.size > 1) {
+        findings.push({
+            type: 'no-host-redirect',
+            severity: 'aviso',
+            message: 'As versões com e sem www respondem sem redirecionar para um único domínio.',
+            url: entryPoints[0]?.url || '',
+        });
+    }
+
+    return findings;
+}
@@ -0,0 +1,122 @@
+import puppeteer from 'puppeteer';
+import { measureLabTimings, type ThrottlingSelection } from './lab-timings';
+import type { PerformanceMetrics } from './performance-analyzer';
+import { buildLabMetricValues, formatLabMetricValues } from './performance-metrics';
+
+/**
+ * Medição local de performance (alternativa ao PageSpeed Insights): carrega a página no Chromium
+ * headless com o mesmo perfil do Lighthouse e calcula o score com as curvas e pesos do Lighthouse 10.
+ * São dados de laboratório locais, não comparáveis um a um com o PageSpeed.
+ */
+
+// Mesmo perfil usado pelo PageSpeed em cada estratégia
+const STRATEGY_PROFILES: Record<'mobile' | 'desktop', ThrottlingSelection> = {
+    mobile: { network: '4g', cpu: 'mid-range-android' },
+    desktop: { network: 'none', cpu: 'none' },
+};
+
+type ScoredMetric = 'fcp' | 'speedIndex' | 'lcp' | 'tbt' | 'cls';
+
+// Curvas log-normais do Lighthouse 10 (p10 e mediana, em ms exceto CLS)
+const SCORING_CURVES: Record<'mobile' | 'desktop', Record<ScoredMetric, { p10: number; median: number }>> = {
+    mobile: {
+        fcp: { p10: 1800, median: 3000 },
+        speedIndex: { p10: 3387, median: 5800 },
+        lcp: { p10: 2500, median: 4000 },
+        tbt: { p10: 200, median: 600 },
+        cls: { p10: 0.1, median: 0.25 },
+    },
+    desktop: {
+        fcp: { p10: 934, median: 1600 },
+        speedIndex: { p10: 1311, median: 2300 },
+        lcp: { p10: 1200, median: 2400 },
+        tbt: { p10: 150, median: 350 },
+        cls: { p10: 0.1, median: 0.25 },
+    },
+};
+
+// Pesos de cada métrica no score de performance do Lighthouse 10
+const SCORING_WEIGHTS: Record<ScoredMetric, number> = {
+    fcp: 0.1,
+    speedIndex: 0.1,
+    lcp: 0.25,
+    tbt: 0.3,
+    cls: 0.25,
+};
+
+/**
+ * Mede a página localmente e devolve as métricas no mesmo formato do PageSpeed.
+ *
+ * @param url URL completa do site
+ * @param strategy 'mobile' (4G + CPU 4x, tela de celular) ou 'desktop' (sem limitação)
+ */
+export async function measureLocalPerformance(url: string, strategy: 'mobile' | 'desktop'): Promise<PerformanceMetrics> {
+    console.log(`🧪 Medindo performance localmente (${strategy})...`);
+
+    const browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+
+    try {
+        const [timing] = await measureLabTimings(browser, url, [STRATEGY_PROFILES[strategy]]);
+        if (timing.error) throw new Error(timing.error);
+
+        // Sem FCP ou LCP a medição falhou (página não pintou a tempo): não vira um 0 com nota máxima
+        if (timing.fcp === null || timing.lcp === null) {
+            throw new Error(`Medição local incompleta: ${timing.fcp === null ? 'FCP' : 'LCP'} não registrado.`);
+        }
+
+        const fcp = timing.fcp;
+        const lcp = timing.lcp;
+        const tbt = timing.tbt ?? 0;
+        const cls = timing.cls ?? 0;
+        const tti = timing.tti ?? lcp;
+        // Sem filmstrip não há Speed Index real: estimativa pela média entre FCP e LCP
+        const speedIndex = Math.round((fcp + lcp) / 2);
+
+        const scored: Record<ScoredMetric, number> = { fcp, speedIndex, lcp, tbt, cls };
+        const score = (Object.keys(SCORING_WEIGHTS) as ScoredMetric[]).reduce(
+            (sum, metric) => sum + SCORING_WEIGHTS[metric] * scoreMetric(scored[metric], SCORING_CURVES[strategy][metric]),
+            0
+        );
+
+        const raw = { fcp, lcp, tti, cls, speedIndex, tbt };
+        // O modelo tipado mostra o que não foi medido como null, sem os valores de reserva usados no score
+        const values = buildLabMetricValues({ fcp, lcp, tti: timing.tti, cls: timing.cls, speedIndex, tbt: timing.tbt });
+        const metrics: PerformanceMetrics = {
+            score: Math.round(score * 100),
+            ...formatLabMetricValues(values),
+            raw,
+            values,
+            source: 'local',
+        };
+
+        console.log(`✅ Medição local concluída. Score: ${metrics.score}`);
+        return metrics;
+    } finally {
+        await browser.close();
+    }
+}
+
+/**
+ * Score log-normal do Lighthouse: 0.9 no p10, 0.5 na mediana.
+ * Só recebe valores medidos: 0 é um resultado real (sem bloqueio ou deslocamento) e vale nota máxima.
+ */
+function scoreMetric(value: number, curve: { p10: number; median: number }): number {
+    if (value <= 0) return 1;
+    const INVERSE_ERFC_ONE_FIFTH = 0.9062054873658736;
+    const standardized = (Math.log(value / curve.median) * INVERSE_ERFC_ONE_FIFTH) / -Math.log(curve.p10 / curve.median);
+    return Math.min(1, Math.max(0, erfc(standardized) / 2));
+}
+
+/**
+ * Função erro complementar (aproximação de Abramowitz e Stegun, erro < 1.5e-7).
+ */
+function erfc(x: number): number {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.3275911 * z);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-z * z);
+    return x >= 0 ? 1 - erf : 1 + erf;
+}
@@ -0,0 +1,174 @@
+import { Browser, KnownDevices, Page } from 'puppeteer';
+
+/**
+ * Emulação de dispositivo móvel e comparação entre as versões desktop e mobile de uma página.
+ * A maior parte do tráfego do e-commerce brasileiro é mobile, então elementos que somem
+ * ou mudam no celular (menu, busca, carrinho, H1) são pontos críticos de conversão.
+ */
+
+// Dispositivo Android intermediário, representativo do público brasileiro
+export const MOBILE_DEVICE_NAME = 'Galaxy S9+';
+
+/**
+ * Estado visual da página em um viewport específico.
+ */
+export interface ViewportSnapshot {
+    viewport: { width: number; height: number; isMobile: boolean };
+    h1: string[]; // Apenas H1 visíveis
+    elements: Record<string, boolean>; // Visibilidade de cada elemento-chave (rótulo -> visível)
+    visibleLinks: number;
+    visibleImages: number;
+    hasHorizontalScroll: boolean; // Conteúdo mais largo que a tela
+}
+
+export interface MobileSnapshot extends ViewportSnapshot {
+    device: string;
+    userAgent: string;
+    screenshot: string; // Base64 da imagem
+}
+
+export interface ViewportDifference {
+    type: 'hidden-on-mobile' | 'missing-menu' | 'h1-changed' | 'horizontal-scroll';
+    element?: string;
+    description: string;
+}
+
+export interface ViewportComparison {
+    desktop: ViewportSnapshot;
+    mobile: MobileSnapshot;
+    differences: ViewportDifference[];
+}
+
+/**
+ * Elementos-chave verificados nos dois viewports (rótulo -> seletores).
+ */
+const KEY_ELEMENTS: Record<string, string> = {
+    'Menu de navegação': 'header nav, nav[role="navigation"], [role="navigation"], [class*="main-menu"], [class*="navbar"]',
+    'Botão de menu': '[class*="hamburger"], [class*="menu-toggle"], [class*="burger"], button[aria-label*="menu" i], [class*="menu-mobile"]',
+    'Busca': 'input[type="search"], input[name="q"], input[name="ft"], form[action*="busca"] input, [class*="search"] input',
+    'Carrinho': 'a[href*="cart"], a[href*="carrinho"], a[href*="sacola"], [class*="minicart"], [class*="cart-icon"]',
+    'Banner principal': '[class*="banner"], [class*="carousel"], [class*="slider"], [class*="hero"]',
+    'Login / Conta': 'a[href*="login"], a[href*="conta"], a[href*="account"]',
+    'WhatsApp': 'a[href*="wa.me"], a[href*="whatsapp"]',
+};
+
+const MENU_ELEMENTS = ['Menu de navegação', 'Botão de menu'];
+
+/**
+ * Coleta o estado visual da página no viewport atual.
+ */
+export async function collectViewportSnapshot(page: Page): Promise<ViewportSnapshot> {
+    return page.evaluate((keyElements: Record<string, string>) => {
+        // Considera visível o elemento com dimensões e sem estilos que o escondam
+        const isVisible = (el: Element) => {
+            const rect = el.getBoundingClientRect();
+            const style = window.getComputedStyle(el);
+            return (
+                rect.width > 0 &&
+                rect.height > 0 &&
+                style.display !== 'none' &&
+                style.visibility !== 'hidden' &&
+                style.opacity !== '0'
+            );
+        };
+
+        const elements: Record<string, boolean> = {};
+        Object.entries(keyElements).forEach(([label, selector]) => {
+            elements[label] = Array.from(document.querySelectorAll(selector)).some(isVisible);
+        });
+
+        return {
+            viewport: {
+                width: window.innerWidth,
+                height: window.innerHeight,
+                isMobile: window.matchMedia('(pointer: coarse)').matches,
+            },
+            h1: Array.from(document.querySelectorAll('h1'))
+                .filter(isVisible)
+                .map((el) => (el.textContent || '').trim())
+                .filter(Boolean),
+            elements,
+            visibleLinks: Array.from(document.querySelectorAll('a')).filter(isVisible).length,
+            visibleImages: Array.from(document.querySelectorAll('img')).filter(isVisible).length,
+            hasHorizontalScroll: document.documentElement.scrollWidth > window.innerWidth + 1,
+        };
+    }, KEY_ELEMENTS);
+}
+
+/**
+ * Abre a URL em uma nova aba com emulação completa de dispositivo móvel
+ * (user agent, touch, DPR e viewport) e captura o snapshot e o screenshot.
+ */
+export async function captureMobileSnapshot(browser: Browser, url: string): Promise<MobileSnapshot> {
+    const device = KnownDevices[MOBILE_DEVICE_NAME];
+    const page = await browser.newPage();
+
+    try {
+        await page.emulate(device);
+
+        console.log(`📱 Navegando com emulação mobile (${MOBILE_DEVICE_NAME})...`);
+        await page.goto(url, {
+            waitUntil: 'networkidle0',
+            timeout: 30000,
+        });
+
+        const snapshot = await collectViewportSnapshot(page);
+
+        const screenshotBuffer = await page.screenshot({ encoding: 'base64', fullPage: false });
+
+        return {
+            ...snapshot,
+            device: MOBILE_DEVICE_NAME,
+            userAgent: device.userAgent,
+            screenshot: `data:image/png;base64,${screenshotBuffer}`,
+        };
+    } finally {
+        await page.close();
+    }
+}
+
+/**
+ * Compara os snapshots desktop e mobile e lista as diferenças relevantes para conversão.
+ */
+export function compareViewports(desktop: ViewportSnapshot, mobile: MobileSnapshot): ViewportComparison {
+    const differences: ViewportDifference[] = [];
+
+    // Elementos visíveis no desktop que desaparecem no mobile
+    Object.entries(desktop.elements).forEach(([element, visibleOnDesktop]) => {
+        if (MENU_ELEMENTS.includes(element)) return;
+        if (visibleOnDesktop && !mobile.elements[element]) {
+            differences.push({
+                type: 'hidden-on-mobile',
+                element,
+                description: `${element} visível no desktop, mas oculto no mobile.`,
+            });
+        }
+    });
+
+    // No mobile o menu costuma virar um botão (hambúrguer); ausência dos dois é problema
+    const hasMobileMenu = MENU_ELEMENTS.some((element) => mobile.elements[element]);
+    if (!hasMobileMenu) {
+        differences.push({
+            type: 'missing-menu',
+            description: 'Nenhum menu de navegação ou botão de menu visível no mobile.',
+        });
+    }
+
+    const desktopH1 = desktop.h1.join(' | ');
+    const mobileH1 = mobile.h1.join(' | ');
+    if (desktopH1 !== mobileH1) {
+        differences.push({
+            type: 'h1-changed',
+            description: `H1 diferente entre as versões. Desktop: "${desktopH1 || 'ausente'}" / Mobile: "${mobileH1 || 'ausente'}".`,
+        });
+    }
+
+    if (mobile.hasHorizontalScroll) {
+        differences.push({
+            type: 'horizontal-scroll',
+            description: 'O conteúdo é mais largo que a tela no mobile, gerando rolagem horizontal.',
+        });
+    }
+
+    return { desktop, mobile, differences };
+}
@@ -0,0 +1,298 @@
+import { Page } from 'puppeteer';
+
+/**
+ * Captura das requisições de rede durante o carregamento da página (via DevTools Protocol)
+ * e relatório de peso: total transferido, recursos mais pesados e custo de cada domínio de terceiros.
+ */
+
+export interface NetworkRequestEntry {
+    url: string;
+    domain: string; // Domínio raiz (ex: facebook.net)
+    resourceType: string; // Document, Script, Image, Stylesheet, Font, XHR...
+    method: string;
+    status: number | null;
+    mimeType: string;
+    transferSize: number; // Bytes transferidos (comprimidos)
+    startTime: number; // ms desde a primeira requisição
+    duration: number; // ms
+    thirdParty: boolean;
+    failed: boolean;
+    errorText?: string;
+    fromCache: boolean;
+}
+
+export interface ThirdPartyUsage {
+    domain: string;
+    name: string; // Nome do fornecedor quando conhecido (ex: Meta, Hotjar)
+    requests: number;
+    bytes: number;
+    time: number; // Soma das durações das requisições (ms)
+}
+
+export interface NetworkReport {
+    startedAt: string; // ISO da primeira requisição
+    totalRequests: number;
+    totalBytes: number;
+    firstPartyBytes: number;
+    thirdPartyBytes: number;
+    byType: Record<string, { requests: number; bytes: number }>;
+    heaviest: NetworkRequestEntry[];
+    thirdParties: ThirdPartyUsage[];
+    requests: NetworkRequestEntry[];
+}
+
+export interface NetworkCapture {
+    stop(): Promise<NetworkReport>;
+}
+
+// Acumulado de todas as requisições da página, inclusive as que passam do limite armazenado
+interface NetworkTotals {
+    requests: number;
+    bytes: number;
+    thirdPartyBytes: number;
+    byType: NetworkReport['byType'];
+    thirdParties: Map<string, ThirdPartyUsage>;
+    heaviest: NetworkRequestEntry[];
+}
+
+// Limite de requisições armazenadas por página (evita registros gigantes no banco).
+// Os totais consideram todas as requisições; só a lista detalhada é cortada.
+const MAX_RECORDED_REQUESTS = 500;
+
+// Quantidade de recursos mais pesados listados no relatório
+const HEAVIEST_COUNT = 10;
+
+// Nomes de fornecedores conhecidos por domínio raiz
+const THIRD_PARTY_NAMES: Record<string, string> = {
+    'facebook.net': 'Meta (Pixel)',
+    'facebook.com': 'Meta',
+    'google-analytics.com': 'Google Analytics',
+    'googletagmanager.com': 'Google Tag Manager',
+    'doubleclick.net': 'Google Ads',
+    'googleadservices.com': 'Google Ads',
+    'googleapis.com': 'Google APIs',
+    'gstatic.com': 'Google (estáticos)',
+    'hotjar.com': 'Hotjar',
+    'clarity.ms': 'Microsoft Clarity',
+    'tiktok.com': 'TikTok',
+    'rdstation.com.br': 'RD Station',
+    'rdstation.com': 'RD Station',
+    'zendesk.com': 'Zendesk',
+    'zdassets.com': 'Zendesk',
+    'jivosite.com': 'JivoChat',
+    'tawk.to': 'Tawk.to',
+    'blip.ai': 'Blip',
+    'hubspot.com': 'HubSpot',
+    'hs-scripts.com': 'HubSpot',
+    'trustvox.com.br': 'Trustvox',
+    'yotpo.com': 'Yotpo',
+    'vtexassets.com': 'VTEX (CDN)',
+    'shopify.com': 'Shopify',
+    'cloudflare.com': 'Cloudflare',
+    'criteo.com': 'Criteo',
+    'criteo.net': 'Criteo',
+};
+
+// Sufixos de segundo nível comuns (ex: loja.com.br -> domínio raiz loja.com.br)
+const SECOND_LEVEL_SUFFIXES = /\.(com|net|org|gov|edu|art|blog|app|ind|adv)\.(br|ar|uk|au)$|\.co\.(uk|jp)$/i;
+
+/**
+ * Retorna o domínio raiz (registrável) de um hostname, usado para agrupar terceiros.
+ */
+export function getRootDomain(hostname: string): string {
+    const labels = hostname.toLowerCase().replace(/^www\./, '').split('.');
+    const size = SECOND_LEVEL_SUFFIXES.test(hostname) ? 3 : 2;
+    return labels.slice(-size).join('.');
+}
+
+/**
+ * Inicia a captura de rede em uma aba. Deve ser chamada antes do page.goto().
+ */
+export async function startNetworkCapture(page: Page, siteUrl: string): Promise<NetworkCapture> {
+    const client = await page.createCDPSession();
+    await client.send('Network.enable');
+
+    const siteDomain = getRootDomain(new URL(siteUrl).hostname);
+    const pending = new Map<string, { entry: NetworkRequestEntry; timestamp: number }>();
+    const entries: NetworkRequestEntry[] = [];
+    const totals: NetworkTotals = {
+        requests: 0,
+        bytes: 0,
+        thirdPartyBytes: 0,
+        byType: {},
+        thirdParties: new Map(),
+        heaviest: [],
+    };
+    let firstTimestamp: number | null = null;
+    let startedAt = new Date();
+
+    const finish = (requestId: string, timestamp: number, patch: Partial<NetworkRequestEntry>) => {
+        const item = pending.get(requestId);
+        if (!item) return;
+        pending.delete(requestId);
+        Object.assign(item.entry, patch, { duration: Math.round((timestamp - item.timestamp) * 1000) });
+        addToTotals(totals, item.entry);
+        if (entries.length < MAX_RECORDED_REQUESTS) entries.push(item.entry);
+    };
+
+    client.on('Network.requestWillBeSent', (event) => {
+        if (!/^https?:/i.test(event.request.url)) return;
+        if (firstTimestamp === null) {
+            firstTimestamp = event.timestamp;
+            startedAt = new Date(event.wallTime * 1000);
+        }
+
+        // Redirecionamentos reutilizam o mesmo requestId: fecha a requisição anterior
+        if (event.redirectResponse) {
+            finish(event.requestId, event.timestamp, {
+                status: event.redirectResponse.status,
+                mimeType: event.redirectResponse.mimeType,
+                transferSize: event.redirectResponse.encodedDataLength,
+            });
+        }
+
+        const domain = getRootDomain(new URL(event.request.url).hostname);
+        pending.set(event.requestId, {
+            timestamp: event.timestamp,
+            entry: {
+                url: event.request.url,
+                domain,
+                resourceType: event.type || 'Other',
+                method: event.request.method,
+                status: null,
+                mimeType: '',
+                transferSize: 0,
+                startTime: Math.round((event.timestamp - firstTimestamp) * 1000),
+                duration: 0,
+                thirdParty: domain !== siteDomain,
+                failed: false,
+                fromCache: false,
+            },
+        });
+    });
+
+    client.on('Network.responseReceived', (event) => {
+        const item = pending.get(event.requestId);
+        if (!item) return;
+        item.entry.status = event.response.status;
+        item.entry.mimeType = event.response.mimeType;
+        item.entry.fromCache = !!event.response.fromDiskCache;
+    });
+
+    client.on('Network.loadingFinished', (event) => {
+        finish(event.requestId, event.timestamp, { transferSize: event.encodedDataLength });
+    });
+
+    client.on('Network.loadingFailed', (event) => {
+        finish(event.requestId, event.timestamp, { failed: true, errorText: event.errorText });
+    });
+
+    return {
+        async stop() {
+            await client.detach().catch(() => undefined);
+            return buildNetworkReport(entries.sort((a, b) => a.startTime - b.startTime), totals, startedAt);
+        },
+    };
+}
+
+/**
+ * Soma uma requisição concluída aos totais da página.
+ */
+function addToTotals(totals: NetworkTotals, request: NetworkRequestEntry) {
+    totals.requests++;
+    totals.bytes += request.transferSize;
+
+    if (!totals.byType[request.resourceType]) totals.byType[request.resourceType] = { requests: 0, bytes: 0 };
+    totals.byType[request.resourceType].requests++;
+    totals.byType[request.resourceType].bytes += request.transferSize;
+
+    if (request.thirdParty) {
+        totals.thirdPartyBytes += request.transferSize;
+        const usage = totals.thirdParties.get(request.domain) || {
+            domain: request.domain,
+            name: THIRD_PARTY_NAMES[request.domain] || request.domain,
+            requests: 0,
+            bytes: 0,
+            time: 0,
+        };
+        usage.requests++;
+        usage.bytes += request.transferSize;
+        usage.time += request.duration;
+        totals.thirdParties.set(request.domain, usage);
+    }
+
+    // Mantém só os mais pesados para não guardar todas as requisições em memória
+    if (totals.heaviest.length < HEAVIEST_COUNT || request.transferSize > totals.heaviest[totals.heaviest.length - 1].transferSize) {
+        totals.heaviest = [...totals.heaviest, request].sort((a, b) => b.transferSize - a.transferSize).slice(0, HEAVIEST_COUNT);
+    }
+}
+
+/**
+ * Monta o relatório de peso da página: totais de todas as requisições e a lista armazenada (limitada).
+ */
+function buildNetworkReport(requests: NetworkRequestEntry[], totals: NetworkTotals, startedAt: Date): NetworkReport {
+    return {
+        startedAt: startedAt.toISOString(),
+        totalRequests: totals.requests,
+        totalBytes: totals.bytes,
+        firstPartyBytes: totals.bytes - totals.thirdPartyBytes,
+        thirdPartyBytes: totals.thirdPartyBytes,
+        byType: totals.byType,
+        heaviest: totals.heaviest,
+        thirdParties: Array.from(totals.thirdParties.values()).sort((a, b) => b.bytes - a.bytes),
+        requests,
+    };
+}
+
+/**
+ * Gera um arquivo HAR 1.2 a partir do relatório de rede (para abrir no DevTools ou no WebPageTest).
+ * Cabeçalhos e corpos não são armazenados, então esses campos ficam vazios.
+ */
+export function buildHar(report: NetworkReport, pageUrl: string, pageTitle: string) {
+    const startedAt = new Date(report.startedAt).getTime();
+
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: 'diagnostico-app', version: '0.1.0' },
+            pages: [
+                {
+                    startedDateTime: report.startedAt,
+                    id: 'page_1',
+                    title: pageTitle || pageUrl,
+                    pageTimings: {},
+                },
+            ],
+            entries: report.requests.map((request) => ({
+                pageref: 'page_1',
+                startedDateTime: new Date(startedAt + request.startTime).toISOString(),
+                time: request.duration,
+                request: {
+                    method: request.method,
+                    url: request.url,
+                    httpVersion: '',
+                    headers: [],
+                    queryString: [],
+                    cookies: [],
+                    headersSize: -1,
+                    bodySize: -1,
+                },
+                response: {
+                    status: request.status ?? 0,
+                    statusText: request.errorText || '',
+                    httpVersion: '',
+                    headers: [],
+                    cookies: [],
+                    content: { size: request.transferSize, mimeType: request.mimeType },
+                    redirectURL: '',
+                    headersSize: -1,
+                    bodySize: request.transferSize,
+                    _transferSize: request.transferSize,
+                },
+                cache: {},
+                timings: { send: 0, wait: request.duration, receive: 0 },
+                _resourceType: request.resourceType.toLowerCase(),
+            })),
+        },
+    };
+}
@@ -0,0 +1,134 @@
+/**
+ * Classificação de páginas de e-commerce (home, categoria, produto, carrinho, institucional).
+ * Combina heurísticas de URL das principais plataformas (VTEX, Nuvemshop, Shopify, WooCommerce, etc.)
+ * com sinais extraídos do DOM durante o scraping.
+ */
+
+export type PageType = 'home' | 'category' | 'product' | 'cart' | 'institutional' | 'other';
+
+/**
+ * Sinais do DOM coletados no contexto da página para apoiar a classificação.
+ */
+export interface PageSignals {
+    hasProductSchema: boolean; // JSON-LD ou microdata do tipo Product
+    hasAddToCartButton: boolean; // Botão "Comprar" / "Adicionar ao carrinho"
+    productCardCount: number; // Quantidade de cards de produto (vitrines/listagens)
+    hasCartItems: boolean; // Estrutura típica de carrinho (itens, subtotal)
+}
+
+// Rótulos em português para exibição no dashboard e no prompt da IA
+export const PAGE_TYPE_LABELS: Record<PageType, string> = {
+    home: 'Home',
+    category: 'Categoria',
+    product: 'Produto',
+    cart: 'Carrinho',
+    institutional: 'Institucional',
+    other: 'Outra',
+};
+
+// Padrões de URL por tipo de página (ordem importa: carrinho antes de produto, etc.)
+const URL_PATTERNS: { type: PageType; pattern: RegExp }[] = [
+    { type: 'cart', pattern: /\/(cart|carrinho|sacola|checkout|basket)(\/|$|\?|#)/i },
+    { type: 'institutional', pattern: /\/(institucional|sobre|quem-somos|about|politica|privacidade|privacy|termos|terms|trocas|devolucao|devolucoes|contato|contact|faq|ajuda|atendimento|pages)(\/|-|$|\?)/i },
+    { type: 'product', pattern: /\/(produto|produtos|product|products)\/[^/]+|\/p(\/|$|\?)/i },
+    { type: 'category', pattern: /\/(categoria|categorias|category|categories|collections|colecao|departamento|c|product-category|categoria-produto|shop)(\/|$|\?)/i },
+];
+
+// Caminhos que não agregam à análise (área logada, arquivos, busca interna)
+const IGNORED_PATHS = /\/(login|logout|conta|minha-conta|account|my-account|wp-admin|wp-login|admin|busca|search)(\/|$|\?)/i;
+const IGNORED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|avif|svg|zip|xml|txt|mp4|mp3)(\?|$)/i;
+
+// Prioridade de visita no crawl: páginas onde a conversão é decidida vêm primeiro
+const CRAWL_PRIORITY: Record<PageType, number> = {
+    product: 0,
+    category: 1,
+    cart: 2,
+    institutional: 3,
+    other: 4,
+    home: 5,
+};
+
+/**
+ * Classifica uma URL apenas por padrões de caminho.
+ * Retorna null quando a URL não permite uma conclusão.
+ */
+export function classifyUrl(url: string): PageType | null {
+    try {
+        const { pathname } = new URL(url);
+        if (pathname === '/' || pathname === '') return 'home';
+
+        const match = URL_PATTERNS.find(({ pattern }) => pattern.test(pathname));
+        return match ? match.type : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Classifica uma página combinando a URL com os sinais do DOM.
+ * Os sinais do DOM têm precedência quando são fortes (schema de produto, itens de carrinho).
+ */
+export function classifyPage(url: string, signals?: PageSignals): PageType {
+    const byUrl = classifyUrl(url);
+
+    if (byUrl === 'home' || byUrl === 'cart') return byUrl;
+
+    if (signals) {
+        if (signals.hasCartItems) return 'cart';
+        if (signals.hasProductSchema || (signals.hasAddToCartButton && signals.productCardCount <= 1)) {
+            return 'product';
+        }
+        if (signals.productCardCount >= 4 && byUrl !== 'institutional') return 'category';
+    }
+
+    return byUrl || 'other';
+}
+
+/**
+ * Normaliza uma URL para deduplicação (remove hash e barra final).
+ */
+export function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        const normalized = parsed.toString();
+        return normalized.endsWith('/') && parsed.pathname !== '/' ? normalized.slice(0, -1) : normalized;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Seleciona os links internos que valem a pena visitar, ordenados por prioridade de tipo.
+ * Limita a quantidade por tipo para garantir diversidade (ex: não visitar 10 produtos).
+ *
+ * @param links Links internos encontrados na página
+ * @param visited URLs já visitadas ou enfileiradas (normalizadas)
+ * @param perTypeLimit Máximo de links por tipo de página
+ */
+export function selectCrawlLinks(links: string[], visited: Set<string>, perTypeLimit = 2): string[] {
+    const seen = new Set<string>();
+    const candidates: { url: string; type: PageType }[] = [];
+
+    for (const link of links) {
+        if (!/^https?:/i.test(link) || IGNORED_PATHS.test(link) || IGNORED_EXTENSIONS.test(link)) continue;
+
+        const url = normalizeUrl(link);
+        if (visited.has(url) || seen.has(url)) continue;
+        seen.add(url);
+
+        candidates.push({ url, type: classifyUrl(url) || 'other' });
+    }
+
+    const countByType: Partial<Record<PageType, number>> = {};
+
+    return candidates
+        .sort((a, b) => CRAWL_PRIORITY[a.type] - CRAWL_PRIORITY[b.type])
+        .filter(({ type }) => {
+            if (type === 'home') return false;
+            const count = (countByType[type] || 0) + 1;
+            countByType[type] = count;
+            return count <= perTypeLimit;
+        })
+        .map(({ url }) => url);
+}
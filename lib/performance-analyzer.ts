@@ -1,4 +1,9 @@
 import { env } from './env';
+import { measureLocalPerformance } from './local-performance';
+import { parseLoadingExperience, type CruxLoadingExperience, type PerformanceFieldData } from './crux-field-data';
+import { buildLabMetricValues, emptyLabMetricValues, type LabMetricValues } from './performance-metrics';
+import { aggregateRuns, DEFAULT_RUN_OPTIONS, runPerformanceSeries, type PerformanceRunOptions, type PerformanceRunStats } from './performance-runs';
+import { extractLighthouseAudits, type LighthouseAuditRef, type LighthouseAuditResult, type PerformanceAudit } from './lighthouse-audits';
 
 // Interfaces para a resposta da API do PageSpeed Insights (simplificada)
 interface PageSpeedMetric {
@@ -21,9 +26,11 @@ interface PageSpeedResponse {
         categories: {
             performance: {
                 score: number; // 0-1
+                auditRefs?: LighthouseAuditRef[];
             };
         };
         audits: {
+            [id: string]: LighthouseAuditResult; // Demais auditorias (oportunidades e diagnósticos)
             'first-contentful-paint': PageSpeedAudit;
             'largest-contentful-paint': PageSpeedAudit;
             'interactive': PageSpeedAudit; // TTI
@@ -32,15 +39,21 @@ interface PageSpeedResponse {
             'total-blocking-time': PageSpeedAudit;
         };
     };
+    loadingExperience?: CruxLoadingExperience; // Dados de campo (CrUX) da página
+    originLoadingExperience?: CruxLoadingExperience; // Dados de campo (CrUX) do domínio
     error?: {
         message: string;
         code: number;
     };
 }
 
+// Origem das métricas: API do PageSpeed Insights ou medição local no Chromium (laboratório)
+export type PerformanceSource = 'pagespeed' | 'local';
+
 // Interface de retorno da nossa função
 export interface PerformanceMetrics {
     score: number; // 0-100
+    // Textos de exibição (ex: "2.4 s"): para comparar ou classificar, use values (getMetricValues)
     fcp: string; // First Contentful Paint
     lcp: string; // Largest Contentful Paint
     tti: string; // Time to Interactive
@@ -55,24 +68,56 @@ export interface PerformanceMetrics {
         speedIndex: number;
         tbt: number;
     };
+    values?: LabMetricValues; // Valor numérico, unidade e classificação de cada métrica (ausente em análises antigas)
+    source: PerformanceSource;
+    fieldData?: PerformanceFieldData; // Usuários reais do Chrome (CrUX), apenas PageSpeed
+    audits?: PerformanceAudit[]; // Oportunidades e diagnósticos reprovados, em ordem de prioridade (apenas PageSpeed)
+    runs?: PerformanceRunStats; // Mediana e variação das execuções do PageSpeed
     error?: string;
 }
 
 /**
  * Analisa a performance de um site usando a API do Google PageSpeed Insights.
+ * Com várias execuções, o resultado é a mediana de cada métrica (com a variação em runs).
+ * Sem chave de API ou com falha em todas as execuções, mede localmente no Chromium (source: 'local').
  * 
  * @param url URL completa do site a ser analisado
  * @param strategy 'mobile' ou 'desktop' (padrão: 'mobile')
+ * @param options Quantidade de execuções, simultaneidade e novas tentativas (padrão: uma execução)
  * @returns Métricas de performance e Core Web Vitals
  */
-export async function analyzePerformance(url: string, strategy: 'mobile' | 'desktop' = 'mobile'): Promise<PerformanceMetrics> {
+export async function analyzePerformance(
+    url: string,
+    strategy: 'mobile' | 'desktop' = 'mobile',
+    options: Partial<PerformanceRunOptions> = {}
+): Promise<PerformanceMetrics> {
     console.log(`🚀 Iniciando análise de performance (${strategy}) para: ${url}`);
 
     if (!env.PAGESPEED_API_KEY) {
-        console.error('❌ PAGESPEED_API_KEY não configurada.');
-        return createErrorResult('Chave de API PageSpeed não configurada.');
+        console.warn('⚠️ PAGESPEED_API_KEY não configurada. Usando medição local.');
+        return measureLocallyOrFail(url, strategy, 'Chave de API PageSpeed não configurada.', 0);
+    }
+
+    const config = { ...DEFAULT_RUN_OPTIONS, ...options };
+    const { results, errors } = await runPerformanceSeries(() => runPageSpeed(url, strategy), config);
+
+    if (results.length === 0) {
+        console.warn('⚠️ PageSpeed indisponível. Usando medição local.');
+        return measureLocallyOrFail(url, strategy, errors[errors.length - 1] || 'Erro desconhecido na análise de performance.', errors.length);
+    }
+
+    const metrics = aggregateRuns(results, errors.length);
+    console.log(`✅ Análise de performance concluída. Score: ${metrics.score} (mediana de ${results.length} execução(ões))`);
+    if (metrics.runs?.unstable) {
+        console.warn(`⚠️ Resultado instável: ${metrics.runs.unstableReason}`);
     }
+    return metrics;
+}
 
+/**
+ * Uma execução do PageSpeed Insights. Lança erro com mensagem amigável em caso de falha.
+ */
+async function runPageSpeed(url: string, strategy: 'mobile' | 'desktop'): Promise<PerformanceMetrics> {
     try {
         // Timeout controller para abortar a requisição se demorar muito (60s)
         const controller = new AbortController();
@@ -97,6 +142,19 @@ export async function analyzePerformance(url: string, strategy: 'mobile' | 'desk
         const audits = data.lighthouseResult.audits;
         const performanceScore = (data.lighthouseResult.categories.performance.score || 0) * 100;
 
+        // Métrica ausente na resposta fica null no modelo tipado; raw mantém 0 (formato das análises antigas)
+        const measured = {
+            fcp: audits['first-contentful-paint'].numericValue ?? null,
+            lcp: audits['largest-contentful-paint'].numericValue ?? null,
+            tti: audits['interactive'].numericValue ?? null,
+            cls: audits['cumulative-layout-shift'].numericValue ?? null,
+            speedIndex: audits['speed-index'].numericValue ?? null,
+            tbt: audits['total-blocking-time'].numericValue ?? null,
+        };
+        const raw = Object.fromEntries(
+            Object.entries(measured).map(([metric, value]) => [metric, value ?? 0])
+        ) as PerformanceMetrics['raw'];
+
         // Extração e formatação das métricas
         const metrics: PerformanceMetrics = {
             score: Math.round(performanceScore),
@@ -119,28 +177,48 @@ export async function analyzePerformance(url: string, strategy: 'mobile' | 'desk
             // TBT: Total Blocking Time (Proxy para FID)
             tbt: audits['total-blocking-time'].displayValue || 'N/A',
 
-            // Valores numéricos brutos para cálculos futuros se necessário
-            raw: {
-                fcp: audits['first-contentful-paint'].numericValue || 0,
-                lcp: audits['largest-contentful-paint'].numericValue || 0,
-                tti: audits['interactive'].numericValue || 0,
-                cls: audits['cumulative-layout-shift'].numericValue || 0,
-                speedIndex: audits['speed-index'].numericValue || 0,
-                tbt: audits['total-blocking-time'].numericValue || 0,
-            }
+            // Valores numéricos brutos (ms, CLS sem unidade)
+            raw,
+
+            // Modelo tipado: valor, unidade, classificação e origem do limite
+            values: buildLabMetricValues(measured),
+
+            source: 'pagespeed',
+
+            // Dados de campo (CrUX): p75 de usuários reais, inclusive INP, que o laboratório não mede
+            fieldData: {
+                page: parseLoadingExperience(data.loadingExperience),
+                origin: parseLoadingExperience(data.originLoadingExperience),
+            },
+
+            // Gargalos apontados pelo Lighthouse, com economia estimada e recursos envolvidos
+            audits: extractLighthouseAudits(audits, data.lighthouseResult.categories.performance.auditRefs),
         };
 
-        console.log(`✅ Análise de performance concluída. Score: ${metrics.score}`);
         return metrics;
 
     } catch (error: any) {
         console.error('❌ Erro na análise de performance:', error);
 
-        const errorMessage = error.name === 'AbortError'
+        throw new Error(error.name === 'AbortError'
             ? 'A análise demorou muito tempo (timeout de 60s).'
-            : error.message || 'Erro desconhecido na análise de performance.';
+            : error.message || 'Erro desconhecido na análise de performance.');
+    }
+}
 
-        return createErrorResult(errorMessage);
+/**
+ * Fallback local: só devolve o resultado de erro (score 0) se a medição local também falhar.
+ * A medição local é única (runs.count = 1): sem mediana nem variação para exibir.
+ *
+ * @param failedRuns Execuções do PageSpeed que falharam antes do fallback
+ */
+async function measureLocallyOrFail(url: string, strategy: 'mobile' | 'desktop', pageSpeedError: string, failedRuns: number): Promise<PerformanceMetrics> {
+    try {
+        return aggregateRuns([await measureLocalPerformance(url, strategy)], failedRuns);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('❌ Erro na medição local de performance:', message);
+        return createErrorResult(`${pageSpeedError} Medição local também falhou: ${message}`);
     }
 }
 
@@ -157,6 +235,8 @@ function createErrorResult(message: string): PerformanceMetrics {
         speedIndex: '-',
         tbt: '-',
         raw: { fcp: 0, lcp: 0, tti: 0, cls: 0, speedIndex: 0, tbt: 0 },
+        values: emptyLabMetricValues(),
+        source: 'pagespeed',
         error: message,
     };
 }
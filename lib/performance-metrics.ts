@@ -0,0 +1,124 @@
+/**
+ * Modelo numérico das métricas de performance: valor com unidade, classificação (bom / precisa
+ * melhorar / ruim) e a origem do limite usado. Os limites ficam aqui para que gráfico, cards,
+ * dados de campo e prompt de CRO classifiquem as métricas da mesma forma.
+ */
+
+export type LabMetricId = 'fcp' | 'lcp' | 'tti' | 'cls' | 'speedIndex' | 'tbt';
+export type MetricId = LabMetricId | 'inp' | 'ttfb';
+
+export type MetricUnit = 'ms' | 'unitless';
+export type MetricRating = 'good' | 'needs-improvement' | 'poor';
+
+// core-web-vitals: LCP, CLS e INP; web-vitals: métricas auxiliares do web.dev; lighthouse: curvas do Lighthouse
+export type ThresholdSource = 'core-web-vitals' | 'web-vitals' | 'lighthouse';
+
+export interface MetricThreshold {
+    good: number; // Até este valor: bom
+    poor: number; // Acima deste valor: ruim
+    unit: MetricUnit;
+    source: ThresholdSource;
+}
+
+export interface MetricValue {
+    value: number | null; // null quando a métrica não foi medida
+    unit: MetricUnit;
+    rating: MetricRating | null;
+    thresholdSource: ThresholdSource;
+}
+
+export type LabMetricValues = Record<LabMetricId, MetricValue>;
+
+/**
+ * Limites do Google (Good, Needs Improvement, Poor), em ms exceto CLS.
+ */
+export const THRESHOLDS: Record<MetricId, MetricThreshold> = {
+    fcp: { good: 1800, poor: 3000, unit: 'ms', source: 'web-vitals' },
+    lcp: { good: 2500, poor: 4000, unit: 'ms', source: 'core-web-vitals' },
+    tti: { good: 3800, poor: 7300, unit: 'ms', source: 'lighthouse' },
+    cls: { good: 0.1, poor: 0.25, unit: 'unitless', source: 'core-web-vitals' },
+    speedIndex: { good: 3400, poor: 5800, unit: 'ms', source: 'lighthouse' },
+    tbt: { good: 200, poor: 600, unit: 'ms', source: 'lighthouse' },
+    inp: { good: 200, poor: 500, unit: 'ms', source: 'core-web-vitals' },
+    ttfb: { good: 800, poor: 1800, unit: 'ms', source: 'web-vitals' },
+};
+
+export const METRIC_RATING_LABELS: Record<MetricRating, string> = {
+    good: 'Bom',
+    'needs-improvement': 'Precisa melhorar',
+    poor: 'Ruim',
+};
+
+export const THRESHOLD_SOURCE_LABELS: Record<ThresholdSource, string> = {
+    'core-web-vitals': 'Core Web Vitals',
+    'web-vitals': 'Web Vitals',
+    lighthouse: 'Lighthouse',
+};
+
+const LAB_METRICS: LabMetricId[] = ['fcp', 'lcp', 'tti', 'cls', 'speedIndex', 'tbt'];
+
+/**
+ * Classifica o valor pelos limites da métrica. Retorna null para valor ausente.
+ */
+export function rateMetric(metric: MetricId, value: number | null): MetricRating | null {
+    if (value === null || Number.isNaN(value)) return null;
+    const limits = THRESHOLDS[metric];
+    if (value <= limits.good) return 'good';
+    if (value <= limits.poor) return 'needs-improvement';
+    return 'poor';
+}
+
+export function toMetricValue(metric: MetricId, value: number | null): MetricValue {
+    return {
+        value,
+        unit: THRESHOLDS[metric].unit,
+        rating: rateMetric(metric, value),
+        thresholdSource: THRESHOLDS[metric].source,
+    };
+}
+
+/**
+ * Monta o modelo a partir dos valores brutos (ms, CLS sem unidade), como em PerformanceMetrics.raw.
+ * Métrica não medida deve vir como null (nunca 0, que seria classificado como bom).
+ */
+export function buildLabMetricValues(raw: Record<LabMetricId, number | null>): LabMetricValues {
+    return Object.fromEntries(LAB_METRICS.map((metric) => [metric, toMetricValue(metric, raw[metric])])) as LabMetricValues;
+}
+
+/**
+ * Métricas sem medição: usadas quando a análise falha (nenhum valor deve ser classificado como bom).
+ */
+export function emptyLabMetricValues(): LabMetricValues {
+    return Object.fromEntries(LAB_METRICS.map((metric) => [metric, toMetricValue(metric, null)])) as LabMetricValues;
+}
+
+/**
+ * Modelo numérico de uma análise. Análises antigas não têm values: o modelo é montado a partir de raw.
+ */
+export function getMetricValues(performance: { values?: LabMetricValues; raw: Record<LabMetricId, number>; error?: string }): LabMetricValues {
+    if (performance.values) return performance.values;
+    return performance.error ? emptyLabMetricValues() : buildLabMetricValues(performance.raw);
+}
+
+/**
+ * Textos de exibição de todas as métricas de laboratório (mesmo formato dos campos fcp, lcp... de PerformanceMetrics).
+ */
+export function formatLabMetricValues(values: LabMetricValues): Record<LabMetricId, string> {
+    return Object.fromEntries(LAB_METRICS.map((metric) => [metric, formatMetricValue(values[metric])])) as Record<LabMetricId, string>;
+}
+
+/**
+ * Formata para exibição: "2.4 s", "120 ms", "0.052" ou "—" sem valor.
+ */
+export function formatMetricValue(metric: MetricValue): string {
+    if (metric.unit === 'unitless') return metric.value === null ? '—' : metric.value.toFixed(3);
+    return formatMilliseconds(metric.value);
+}
+
+/**
+ * Mesmo formato de formatMetricValue para tempos que não são métricas (ex: evento load, economia estimada).
+ */
+export function formatMilliseconds(value: number | null): string {
+    if (value === null) return '—';
+    return value >= 1000 ? `${(value / 1000).toFixed(1)} s` : `${Math.round(value)} ms`;
+}
@@ -0,0 +1,142 @@
+import type { PerformanceMetrics } from './performance-analyzer';
+import { runWithConcurrency } from './concurrency-helper';
+import { formatLabMetricValues, getMetricValues, toMetricValue, type LabMetricValues } from './performance-metrics';
+
+/**
+ * Execuções repetidas da análise de performance: uma única medição do PageSpeed varia bastante
+ * (a mesma loja pode marcar 45 e 62 em minutos), então o resultado usa a mediana de N execuções
+ * e registra a variação entre elas.
+ */
+
+type RawMetric = keyof PerformanceMetrics['raw'];
+
+export interface PerformanceRunOptions {
+    runs: number; // Quantidade de execuções (a mediana é o resultado)
+    concurrency: number; // Execuções simultâneas
+    retries: number; // Novas tentativas por execução que falhar
+}
+
+export interface PerformanceRunStats {
+    count: number; // Execuções bem-sucedidas
+    failed: number; // Execuções que falharam mesmo após as novas tentativas
+    scores: number[];
+    spread: Record<'score' | RawMetric, { min: number; max: number }>;
+    unstable: boolean;
+    unstableReason?: string;
+}
+
+export const DEFAULT_RUN_OPTIONS: PerformanceRunOptions = {
+    runs: 1,
+    concurrency: 1,
+    retries: 0,
+};
+
+// Variação de score (pontos) a partir da qual o resultado é considerado instável
+const UNSTABLE_SCORE_SPREAD = 10;
+
+// Variação do LCP (max - min) em relação à mediana a partir da qual o resultado é instável
+const UNSTABLE_LCP_SPREAD = 0.25;
+
+// Espera antes de repetir uma execução que falhou (multiplicada pela tentativa)
+const RETRY_DELAY = 2000;
+
+const RAW_METRICS: RawMetric[] = ['fcp', 'lcp', 'tti', 'cls', 'speedIndex', 'tbt'];
+
+/**
+ * Executa a medição N vezes respeitando o limite de simultaneidade.
+ * Falhas não interrompem a série: são devolvidas em errors.
+ */
+export async function runPerformanceSeries(
+    run: () => Promise<PerformanceMetrics>,
+    options: PerformanceRunOptions
+): Promise<{ results: PerformanceMetrics[]; errors: string[] }> {
+    const results: PerformanceMetrics[] = [];
+    const errors: string[] = [];
+
+    await runWithConcurrency(Array.from({ length: Math.max(1, options.runs) }, (_, idx) => idx + 1), options.concurrency, async (runNumber) => {
+        try {
+            results.push(await runWithRetries(run, options.retries, runNumber));
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+        }
+    });
+
+    return { results, errors };
+}
+
+/**
+ * Combina as execuções: mediana de cada métrica e do score, variação mínima/máxima e sinal de instabilidade.
+ * Auditorias e dados de campo vêm da execução com score mais próximo da mediana.
+ */
+export function aggregateRuns(results: PerformanceMetrics[], failed: number): PerformanceMetrics {
+    const scores = results.map((result) => result.score);
+    const medianScore = median(scores);
+    const representative = results.reduce((best, result) =>
+        Math.abs(result.score - medianScore) < Math.abs(best.score - medianScore) ? result : best
+    );
+
+    const raw = Object.fromEntries(
+        RAW_METRICS.map((metric) => [metric, median(results.map((result) => result.raw[metric]))])
+    ) as PerformanceMetrics['raw'];
+
+    const spread = Object.fromEntries(
+        (['score', ...RAW_METRICS] as const).map((metric) => {
+            const values = metric === 'score' ? scores : results.map((result) => result.raw[metric]);
+            return [metric, { min: Math.min(...values), max: Math.max(...values) }];
+        })
+    ) as PerformanceRunStats['spread'];
+
+    const scoreSpread = spread.score.max - spread.score.min;
+    const lcpSpread = raw.lcp > 0 ? (spread.lcp.max - spread.lcp.min) / raw.lcp : 0;
+    const unstableReason = scoreSpread > UNSTABLE_SCORE_SPREAD
+        ? `Score variou ${scoreSpread} pontos entre as execuções (${spread.score.min}–${spread.score.max}).`
+        : lcpSpread > UNSTABLE_LCP_SPREAD
+            ? `LCP variou ${Math.round(lcpSpread * 100)}% entre as execuções.`
+            : undefined;
+
+    // Mediana só das execuções que mediram a métrica: se nenhuma mediu, o valor continua null
+    const values = Object.fromEntries(
+        RAW_METRICS.map((metric) => {
+            const measured = results
+                .map((result) => getMetricValues(result)[metric].value)
+                .filter((value): value is number => value !== null);
+            return [metric, toMetricValue(metric, measured.length > 0 ? median(measured) : null)];
+        })
+    ) as LabMetricValues;
+
+    return {
+        ...representative,
+        score: Math.round(medianScore),
+        // Uma única execução mantém os valores exibidos pelo PageSpeed
+        ...(results.length > 1 ? formatLabMetricValues(values) : {}),
+        raw,
+        values,
+        runs: {
+            count: results.length,
+            failed,
+            scores,
+            spread,
+            unstable: Boolean(unstableReason),
+            unstableReason,
+        },
+    };
+}
+
+async function runWithRetries(run: () => Promise<PerformanceMetrics>, retries: number, runNumber: number): Promise<PerformanceMetrics> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await run();
+        } catch (error) {
+            if (attempt >= retries) throw error;
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`⚠️ Execução ${runNumber} falhou (${message}). Nova tentativa ${attempt + 1}/${retries}...`);
+            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY * (attempt + 1)));
+        }
+    }
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
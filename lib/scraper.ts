@@ -1,10 +1,29 @@
 import puppeteer, { Page, Browser } from 'puppeteer';
+import { classifyPage, normalizeUrl, selectCrawlLinks, type PageType } from './page-classifier';
+import { extractStructuredData, type StructuredDataReport } from './structured-data';
+import { extractCommercialSignals, type CommercialSignalsReport } from './commercial-signals';
+import { extractTrustSignals, type TrustSignalsReport } from './trust-signals';
+import { extractForms, type FormsReport } from './form-analysis';
+import { startNetworkCapture, type NetworkReport } from './network-capture';
+import { startConsoleCapture, type ConsoleReport } from './console-capture';
+import { extractSeoTags, type SeoTags } from './seo-audit';
+import { analyzeAboveTheFold, type AboveTheFoldReport } from './above-the-fold';
+import { auditAccessibility, type AccessibilityReport } from './accessibility-audit';
+import { checkLgpdCompliance, type LgpdReport } from './lgpd-compliance';
+import { auditSecurity, type SecurityReport } from './security-audit';
+import { exploreCheckout, type CheckoutFunnel } from './checkout-explorer';
+import { measureLabTimings, type LabTimings, type ThrottlingSelection } from './lab-timings';
+import { auditImages, type ImageAuditReport, type ImageDetail } from './image-audit';
+import { collectFingerprintEvidence, type FingerprintEvidence } from './technology-fingerprint';
+import { captureMobileSnapshot, collectViewportSnapshot, compareViewports, type ViewportComparison } from './mobile-emulation';
 
 /**
  * Interface que define a estrutura de dados extraídos do site.
  */
 export interface ScrapedData {
     url: string;
+    pageType: PageType; // Tipo da página (home, categoria, produto, carrinho, institucional)
+    depth: number; // Profundidade no crawl (0 = URL enviada)
     title: string;
     metaDescription: string;
     metaKeywords: string;
@@ -25,7 +44,7 @@ export interface ScrapedData {
     images: {
         total: number;
         withoutAlt: number;
-        details: { src: string; alt: string }[];
+        details: ImageDetail[];
     };
     scripts: {
         analytics: boolean;
@@ -37,17 +56,65 @@ export interface ScrapedData {
         visibleText: string;
         htmlLength: number;
     };
-    screenshot: string; // Base64 da imagem
+    // Auditorias opcionais: ausentes quando falham na página (ex: contexto destruído por redirecionamento)
+    seoTags?: SeoTags; // Canonical, meta robots, X-Robots-Tag e hreflang
+    structuredData?: StructuredDataReport; // JSON-LD e microdata (Product, Offer, BreadcrumbList...)
+    commercialSignals?: CommercialSignalsReport; // Pix, parcelamento, frete grátis, boleto, WhatsApp...
+    trustSignals?: TrustSignalsReport; // Avaliações, Reclame Aqui, selos, CNPJ, política de trocas
+    forms?: FormsReport; // Formulários (newsletter, login, busca, contato, checkout) e pontos de atrito
+    accessibility?: AccessibilityReport; // Violações WCAG (contraste, rótulos, nomes, landmarks, foco)
+    security: SecurityReport; // Cabeçalhos de segurança, conteúdo misto e certificado TLS
+    imageAudit: ImageAuditReport; // Formato, peso, dimensões e lazy loading das imagens
+    network: NetworkReport; // Requisições, peso total e custo por domínio de terceiros
+    console: ConsoleReport; // Exceções JS, erros do console, requisições com falha e violações de CSP
+    fingerprint?: FingerprintEvidence; // Evidências para a detecção local de tecnologias
+    screenshot?: string; // Base64 da imagem (apenas na URL enviada)
+    aboveTheFold?: AboveTheFoldReport; // CTA, busca, proposta de valor, banners e carrinho visíveis no screenshot (apenas na URL enviada)
+    viewports?: ViewportComparison; // Comparação desktop x mobile (apenas na URL enviada)
+    lgpd?: LgpdReport; // Consentimento de cookies e rastreadores antes da interação (apenas na URL enviada)
+    crawl?: CrawlResult; // Presente apenas na página inicial quando o modo crawl está ativo
+    checkoutFunnel?: CheckoutFunnel; // Caminho produto → carrinho → checkout (quando a exploração está ativa)
+    labTimings?: LabTimings[]; // Tempos medidos localmente em cada perfil de rede/CPU (apenas na URL enviada)
 }
 
+/**
+ * Limites do modo crawl (navegação pelos links internos).
+ */
+export interface CrawlOptions {
+    maxDepth: number; // Profundidade máxima a partir da URL enviada
+    maxPages: number; // Total de páginas analisadas, incluindo a URL enviada
+}
+
+/**
+ * Resultado do crawl: uma entrada ScrapedData para cada página interna visitada.
+ */
+export interface CrawlResult extends CrawlOptions {
+    pages: ScrapedData[];
+    failed: { url: string; error: string }[];
+}
+
+export interface ScrapeOptions {
+    crawl?: Partial<CrawlOptions>;
+    mobile?: boolean; // Emulação mobile da URL enviada (padrão: true)
+    checkout?: boolean; // Explora o caminho até o checkout, sem enviar pagamento (padrão: false)
+    throttling?: ThrottlingSelection[]; // Perfis de rede/CPU para medir os tempos locais (ex: 4G + Android)
+}
+
+const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+    maxDepth: 1,
+    maxPages: 5,
+};
+
 /**
  * Função principal para realizar o scraping de uma URL.
  * Utiliza o Puppeteer para renderizar a página e extrair informações detalhadas.
+ * No modo crawl, segue os links internos e retorna também os dados de cada página visitada.
  *
  * @param url A URL do site a ser analisado.
+ * @param options Opções de scraping (ex: { crawl: { maxDepth: 1, maxPages: 5 }, mobile: true, checkout: true, throttling: [{ network: '4g', cpu: 'mid-range-android' }] }).
  * @returns Um objeto ScrapedData com todas as informações coletadas.
  */
-export async function scrapeSite(url: string): Promise<ScrapedData> {
+export async function scrapeSite(url: string, options: ScrapeOptions = {}): Promise<ScrapedData> {
     console.log(`🔍 Iniciando scraping para: ${url}`);
 
     let browser: Browser | null = null;
@@ -59,23 +126,116 @@ export async function scrapeSite(url: string): Promise<ScrapedData> {
             args: ['--no-sandbox', '--disable-setuid-sandbox'], // Necessário para alguns ambientes serverless/container
         });
 
-        const page: Page = await browser.newPage();
+        const data = await scrapePage(browser, url, 0, { mobile: options.mobile !== false });
+
+        if (options.throttling?.length) {
+            data.labTimings = await measureLabTimings(browser, url, options.throttling);
+        }
+
+        if (options.crawl) {
+            data.crawl = await crawlSite(browser, data, { ...DEFAULT_CRAWL_OPTIONS, ...options.crawl });
+        }
+
+        // Depois do crawl: as páginas de produto encontradas servem de ponto de partida
+        if (options.checkout) {
+            console.log('🛒 Explorando o caminho até o checkout...');
+            data.checkoutFunnel = await exploreCheckout(browser, data);
+        }
+
+        console.log('✅ Scraping concluído com sucesso!');
+
+        return data;
+
+    } catch (error: any) {
+        console.error('❌ Erro durante o scraping:', error);
+        throw new Error(`Falha ao analisar o site ${url}: ${error.message}`);
+    } finally {
+        if (browser) {
+            console.log('🔒 Fechando navegador...');
+            await browser.close();
+        }
+    }
+}
+
+/**
+ * Percorre os links internos a partir da página inicial (busca em largura),
+ * priorizando páginas de produto e categoria, até atingir os limites de profundidade e de páginas.
+ */
+async function crawlSite(browser: Browser, root: ScrapedData, options: CrawlOptions): Promise<CrawlResult> {
+    const result: CrawlResult = { ...options, pages: [], failed: [] };
+    if (options.maxDepth < 1) return result;
+
+    const visited = new Set<string>([normalizeUrl(root.url)]);
+    const queue: { url: string; depth: number }[] = [];
+
+    const enqueue = (links: string[], depth: number) => {
+        selectCrawlLinks(links, visited).forEach((link) => {
+            visited.add(link);
+            queue.push({ url: link, depth });
+        });
+    };
+
+    enqueue(root.links.internal, 1);
 
+    // maxPages inclui a página inicial, que já foi analisada
+    while (queue.length > 0 && result.pages.length + 1 < options.maxPages) {
+        const { url, depth } = queue.shift()!;
+        console.log(`🕸️ Crawl (${result.pages.length + 2}/${options.maxPages}) nível ${depth}: ${url}`);
+
+        try {
+            const pageData = await scrapePage(browser, url, depth);
+            result.pages.push(pageData);
+
+            if (depth < options.maxDepth) {
+                enqueue(pageData.links.internal, depth + 1);
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`⚠️ Falha ao analisar página interna ${url}:`, message);
+            result.failed.push({ url, error: message });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Renderiza uma única página em uma nova aba e extrai seus dados.
+ * A aba é sempre fechada ao final, mesmo em caso de erro.
+ * Com a opção mobile, a página também é carregada com emulação de celular para comparação.
+ */
+async function scrapePage(
+    browser: Browser,
+    url: string,
+    depth: number,
+    options: { mobile?: boolean } = {}
+): Promise<ScrapedData> {
+    const page: Page = await browser.newPage();
+
+    try {
         // Define o viewport para simular um desktop padrão
         await page.setViewport({ width: 1920, height: 1080 });
 
+        // Registra todas as requisições feitas durante o carregamento
+        const networkCapture = await startNetworkCapture(page, url);
+        const consoleCapture = startConsoleCapture(page, url);
+
         // Navega para a URL e aguarda o carregamento da rede (networkidle0 = sem conexões ativas por 500ms)
         // Timeout de 30 segundos para evitar travamentos
         console.log('⏳ Navegando e aguardando carregamento...');
-        await page.goto(url, {
+        const response = await page.goto(url, {
             waitUntil: 'networkidle0',
             timeout: 30000,
         });
 
+        const network = await networkCapture.stop();
+        // Só o carregamento: erros causados pelas interações das auditorias seguintes não contam
+        const consoleReport = consoleCapture.stop();
+
         console.log('📄 Extraindo dados da página...');
 
         // Extração de dados via execução de script no contexto da página
-        const data = await page.evaluate(() => {
+        const { pageSignals, ...data } = await page.evaluate(() => {
             // Helper para pegar texto de meta tags
             const getMetaContent = (name: string) => {
                 const element = document.querySelector(`meta[name="${name}"]`) || document.querySelector(`meta[property="${name}"]`);
@@ -127,10 +287,23 @@ export async function scrapeSite(url: string): Promise<ScrapedData> {
 
             // 5. Imagens e Alt Text
             const images = Array.from(document.querySelectorAll('img'));
-            const imagesDetails = images.map((img) => ({
-                src: img.src,
-                alt: img.alt || '',
-            }));
+            const imagesDetails = images.map((img) => {
+                const rect = img.getBoundingClientRect();
+                const loadingAttr = (img.getAttribute('loading') || '').toLowerCase();
+                return {
+                    src: img.src,
+                    alt: img.alt || '',
+                    currentSrc: img.currentSrc || img.src,
+                    naturalWidth: img.naturalWidth,
+                    naturalHeight: img.naturalHeight,
+                    renderedWidth: Math.round(rect.width),
+                    renderedHeight: Math.round(rect.height),
+                    loading: (loadingAttr === 'lazy' || loadingAttr === 'eager' ? loadingAttr : 'auto') as 'lazy' | 'eager' | 'auto',
+                    // Bibliotecas de lazy loading (lazysizes, lozad...) usam data-src e classes "lazy"
+                    scriptLazy: img.hasAttribute('data-src') || img.hasAttribute('data-lazy') || /\blazy/i.test(img.className),
+                    aboveTheFold: rect.width > 0 && rect.top < window.innerHeight && rect.bottom > 0,
+                };
+            });
             const imagesWithoutAlt = images.filter((img) => !img.alt || img.alt.trim() === '').length;
 
             // 6. Scripts de Analytics/Marketing
@@ -149,6 +322,22 @@ export async function scrapeSite(url: string): Promise<ScrapedData> {
             // 7. Conteúdo Visível
             const visibleText = document.body.innerText;
 
+            // 8. Sinais para classificação do tipo de página
+            const ldJson = Array.from(document.querySelectorAll('script[type="application/ld+json"]'))
+                .map((s) => s.textContent || '')
+                .join(' ');
+            const buyButtonPattern = /adicionar (ao|à) (carrinho|sacola)|comprar|add to cart|buy now/i;
+            const pageSignals = {
+                hasProductSchema:
+                    /"@type"\s*:\s*"Product"/.test(ldJson) || !!document.querySelector('[itemtype*="schema.org/Product"]'),
+                hasAddToCartButton: Array.from(document.querySelectorAll('button, input[type="submit"], a[class*="buy"], a[class*="comprar"]'))
+                    .some((el) => buyButtonPattern.test((el as HTMLElement).innerText || (el as HTMLInputElement).value || '')),
+                productCardCount: document.querySelectorAll(
+                    '[class*="product-item"], [class*="product-card"], [class*="shelf-item"], [class*="product-summary"], li.product, [data-product-id]'
+                ).length,
+                hasCartItems: !!document.querySelector('[class*="cart-item"], [class*="cart__item"], [class*="cart-product"], [class*="carrinho-item"]'),
+            };
+
             return {
                 title,
                 metaDescription,
@@ -175,29 +364,94 @@ export async function scrapeSite(url: string): Promise<ScrapedData> {
                     visibleText,
                     htmlLength: document.documentElement.outerHTML.length,
                 },
+                pageSignals,
             };
         });
 
-        console.log('📸 Gerando screenshot...');
-        // Captura screenshot em base64 (encoding: 'base64')
-        const screenshotBuffer = await page.screenshot({ encoding: 'base64', fullPage: false });
-        const screenshot = `data:image/png;base64,${screenshotBuffer}`;
+        // LGPD só na página inicial: o navegador ainda não tem cookies de outras páginas do crawl
+        let lgpd: LgpdReport | undefined;
+        if (depth === 0) {
+            console.log('🍪 Verificando consentimento de cookies (LGPD)...');
+            lgpd = await runOptionalAudit('LGPD', () => checkLgpdCompliance(page, url, network, data.scripts.pixel));
+        }
+
+        // Auditorias opcionais: uma falha (ex: contexto destruído por um redirecionamento tardio)
+        // deixa só aquele campo vazio, sem perder os demais dados da página
+        const seoTags = await runOptionalAudit('SEO', () => extractSeoTags(page, response));
+        const security = auditSecurity(response, network, page.url());
+        const imageAudit = auditImages(data.images.details, network);
+        const structuredData = await runOptionalAudit('dados estruturados', () => extractStructuredData(page));
+        const commercialSignals = await runOptionalAudit('sinais comerciais', () => extractCommercialSignals(page));
+        const trustSignals = await runOptionalAudit('sinais de confiança', () => extractTrustSignals(page));
+        const forms = await runOptionalAudit('formulários', () => extractForms(page));
+        const fingerprint = await runOptionalAudit('fingerprinting', () => collectFingerprintEvidence(page, response, network));
 
-        console.log('✅ Scraping concluído com sucesso!');
+        // Screenshot e dobra só na URL enviada: o dashboard não exibe os das páginas do crawl
+        let aboveTheFold: AboveTheFoldReport | undefined;
+        let screenshot: string | undefined;
+        if (depth === 0) {
+            // Mesma posição de rolagem do screenshot: as caixas são sobrepostas à imagem no dashboard
+            aboveTheFold = await runOptionalAudit('primeira dobra', () => analyzeAboveTheFold(page));
+
+            console.log('📸 Gerando screenshot...');
+            // Captura screenshot em base64 (encoding: 'base64')
+            const screenshotBuffer = await page.screenshot({ encoding: 'base64', fullPage: false });
+            screenshot = `data:image/png;base64,${screenshotBuffer}`;
+        }
+
+        // Snapshot mobile é opcional: uma falha aqui não invalida os dados desktop
+        let viewports: ViewportComparison | undefined;
+        if (options.mobile) {
+            try {
+                const desktopSnapshot = await collectViewportSnapshot(page);
+                const mobileSnapshot = await captureMobileSnapshot(browser, url);
+                viewports = compareViewports(desktopSnapshot, mobileSnapshot);
+            } catch (error) {
+                console.warn('⚠️ Falha na emulação mobile:', error instanceof Error ? error.message : error);
+            }
+        }
+
+        // Por último: a verificação de foco visível interage com os elementos,
+        // então roda depois do screenshot e do snapshot desktop
+        console.log('♿ Auditando acessibilidade...');
+        const accessibility = await runOptionalAudit('acessibilidade', () => auditAccessibility(page));
 
         return {
             url,
+            pageType: classifyPage(url, pageSignals),
+            depth,
             ...data,
+            // Páginas do crawl guardam só os totais: as listas completas vão para o banco e não são exibidas
+            images: depth === 0 ? data.images : { ...data.images, details: [] },
+            seoTags,
+            structuredData,
+            commercialSignals,
+            trustSignals,
+            forms,
+            accessibility,
+            security,
+            imageAudit,
+            network: depth === 0 ? network : { ...network, requests: [] },
+            console: consoleReport,
+            fingerprint,
             screenshot,
+            aboveTheFold,
+            viewports,
+            lgpd,
         };
-
-    } catch (error: any) {
-        console.error('❌ Erro durante o scraping:', error);
-        throw new Error(`Falha ao analisar o site ${url}: ${error.message}`);
     } finally {
-        if (browser) {
-            console.log('🔒 Fechando navegador...');
-            await browser.close();
-        }
+        await page.close();
+    }
+}
+
+/**
+ * Executa uma auditoria opcional da página: em caso de erro, registra o aviso e devolve undefined.
+ */
+async function runOptionalAudit<T>(label: string, audit: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await audit();
+    } catch (error) {
+        console.warn(`⚠️ Falha na auditoria (${label}):`, error instanceof Error ? error.message : error);
+        return undefined;
     }
 }
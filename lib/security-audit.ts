@@ -0,0 +1,203 @@
+import type { HTTPResponse } from 'puppeteer';
+import type { NetworkReport, NetworkRequestEntry } from './network-capture';
+
+/**
+ * Auditoria de segurança da resposta do documento principal: cabeçalhos de segurança,
+ * conteúdo misto (HTTP em página HTTPS) e certificado TLS (emissor e validade).
+ */
+
+export type SecurityGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface SecurityHeaderCheck {
+    header: string;
+    label: string;
+    status: 'ok' | 'fraco' | 'ausente';
+    value: string | null;
+    recommendation: string;
+}
+
+export interface TlsCertificate {
+    protocol: string;
+    issuer: string;
+    subjectName: string;
+    validFrom: string; // ISO
+    validTo: string; // ISO
+    daysUntilExpiry: number;
+}
+
+export interface SecurityReport {
+    grade: SecurityGrade;
+    score: number; // 0-100
+    https: boolean;
+    headers: SecurityHeaderCheck[];
+    mixedContent: { url: string; resourceType: string; blocked: boolean }[];
+    tls: TlsCertificate | null;
+    findings: { severity: 'erro' | 'aviso'; message: string }[];
+}
+
+// Certificados que vencem em menos dias que isso são sinalizados
+const CERTIFICATE_WARNING_DAYS = 30;
+
+// HSTS com max-age menor que 180 dias é considerado fraco
+const HSTS_MIN_MAX_AGE = 15552000;
+
+// Peso de cada cabeçalho no score (cabeçalho fraco vale metade)
+const HEADER_WEIGHTS: Record<string, number> = {
+    'strict-transport-security': 25,
+    'content-security-policy': 25,
+    'x-frame-options': 15,
+    'x-content-type-options': 15,
+    'referrer-policy': 10,
+    'permissions-policy': 10,
+};
+
+/**
+ * Avalia a resposta do documento principal e as requisições registradas no carregamento.
+ *
+ * @param response Resposta do documento principal (retorno do page.goto)
+ * @param network Requisições da página, usadas para encontrar conteúdo misto
+ * @param pageUrl URL carregada
+ */
+export function auditSecurity(response: HTTPResponse | null, network: NetworkReport, pageUrl: string): SecurityReport {
+    const headers = response ? response.headers() : {};
+    const https = pageUrl.startsWith('https:');
+
+    const checks = checkHeaders(headers);
+
+    // A navegação do documento principal (inclusive o redirecionamento http → https) não é conteúdo misto;
+    // iframes e subrecursos via HTTP contam, mesmo quando redirecionam para HTTPS
+    const navigationChain = new Set([
+        ...(response?.request().redirectChain().map((request) => request.url()) || []),
+        ...(response ? [response.url()] : []),
+    ]);
+    const mixedContent = https
+        ? network.requests
+            .filter((request) => request.url.startsWith('http:') && !isMainNavigation(request, navigationChain))
+            .map((request) => ({ url: request.url, resourceType: request.resourceType, blocked: request.failed }))
+        : [];
+
+    const details = response?.securityDetails();
+    const tls: TlsCertificate | null = details
+        ? {
+            protocol: details.protocol(),
+            issuer: details.issuer(),
+            subjectName: details.subjectName(),
+            validFrom: new Date(details.validFrom() * 1000).toISOString(),
+            validTo: new Date(details.validTo() * 1000).toISOString(),
+            daysUntilExpiry: Math.floor((details.validTo() * 1000 - Date.now()) / 86400000),
+        }
+        : null;
+
+    const findings: SecurityReport['findings'] = [];
+    if (!https) {
+        findings.push({ severity: 'erro', message: 'A página não usa HTTPS.' });
+    }
+    if (tls && tls.daysUntilExpiry <= CERTIFICATE_WARNING_DAYS) {
+        findings.push({ severity: 'erro', message: `O certificado TLS expira em ${tls.daysUntilExpiry} dias (${formatDate(tls.validTo)}).` });
+    }
+    if (mixedContent.length > 0) {
+        findings.push({ severity: 'erro', message: `${mixedContent.length} recurso(s) carregado(s) via HTTP em página HTTPS (conteúdo misto).` });
+    }
+    checks.filter((check) => check.status !== 'ok').forEach((check) => {
+        findings.push({ severity: 'aviso', message: `${check.label}: ${check.recommendation}` });
+    });
+
+    // Score: cabeçalhos + penalidades por conteúdo misto e certificado próximo do vencimento
+    let score = checks.reduce((sum, check) => {
+        const weight = HEADER_WEIGHTS[check.header];
+        return sum + (check.status === 'ok' ? weight : check.status === 'fraco' ? weight / 2 : 0);
+    }, 0);
+    if (mixedContent.length > 0) score -= 20;
+    if (tls && tls.daysUntilExpiry <= CERTIFICATE_WARNING_DAYS) score -= 20;
+    score = Math.max(0, Math.round(score));
+
+    // Sem HTTPS o navegador alerta o visitante: nota F.
+    // Certificado expirado ou inválido nem chega aqui: o page.goto falha antes
+    return {
+        grade: https ? getGrade(score) : 'F',
+        score: https ? score : 0,
+        https,
+        headers: checks,
+        mixedContent: mixedContent.slice(0, 50),
+        tls,
+        findings,
+    };
+}
+
+/**
+ * Verifica cada cabeçalho de segurança.
+ */
+function checkHeaders(headers: Record<string, string>): SecurityHeaderCheck[] {
+    const get = (name: string) => headers[name] ?? null;
+    const hsts = get('strict-transport-security');
+    const hstsMaxAge = Number(hsts?.match(/max-age=(\d+)/i)?.[1] || 0);
+    const csp = get('content-security-policy');
+    const cspReportOnly = get('content-security-policy-report-only');
+    const frameOptions = get('x-frame-options');
+    const referrerPolicy = get('referrer-policy');
+
+    return [
+        {
+            header: 'strict-transport-security',
+            label: 'HSTS',
+            value: hsts,
+            status: !hsts ? 'ausente' : hstsMaxAge < HSTS_MIN_MAX_AGE ? 'fraco' : 'ok',
+            recommendation: 'Defina Strict-Transport-Security com max-age de pelo menos 180 dias.',
+        },
+        {
+            header: 'content-security-policy',
+            label: 'Content-Security-Policy',
+            value: csp || cspReportOnly,
+            status: csp ? 'ok' : cspReportOnly ? 'fraco' : 'ausente',
+            recommendation: cspReportOnly && !csp
+                ? 'A CSP está apenas em modo report-only; ative a política para bloquear scripts injetados.'
+                : 'Defina uma Content-Security-Policy para limitar a origem de scripts (proteção contra skimming no checkout).',
+        },
+        {
+            header: 'x-frame-options',
+            label: 'X-Frame-Options',
+            value: frameOptions,
+            // frame-ancestors na CSP substitui o X-Frame-Options
+            status: /deny|sameorigin/i.test(frameOptions || '') || /frame-ancestors/i.test(csp || '') ? 'ok' : frameOptions ? 'fraco' : 'ausente',
+            recommendation: 'Use X-Frame-Options: SAMEORIGIN (ou frame-ancestors na CSP) para evitar clickjacking.',
+        },
+        {
+            header: 'x-content-type-options',
+            label: 'X-Content-Type-Options',
+            value: get('x-content-type-options'),
+            status: /nosniff/i.test(get('x-content-type-options') || '') ? 'ok' : get('x-content-type-options') ? 'fraco' : 'ausente',
+            recommendation: 'Defina X-Content-Type-Options: nosniff.',
+        },
+        {
+            header: 'referrer-policy',
+            label: 'Referrer-Policy',
+            value: referrerPolicy,
+            status: !referrerPolicy ? 'ausente' : /unsafe-url/i.test(referrerPolicy) ? 'fraco' : 'ok',
+            recommendation: 'Use Referrer-Policy: strict-origin-when-cross-origin para não vazar URLs completas.',
+        },
+        {
+            header: 'permissions-policy',
+            label: 'Permissions-Policy',
+            value: get('permissions-policy'),
+            status: get('permissions-policy') ? 'ok' : 'ausente',
+            recommendation: 'Defina Permissions-Policy para desativar câmera, microfone e geolocalização quando não usados.',
+        },
+    ];
+}
+
+// Saltos da cadeia de redirecionamento que termina no documento principal (response.url())
+function isMainNavigation(request: NetworkRequestEntry, navigationChain: Set<string>): boolean {
+    return request.resourceType === 'Document' && navigationChain.has(request.url);
+}
+
+function getGrade(score: number): SecurityGrade {
+    if (score >= 90) return 'A';
+    if (score >= 75) return 'B';
+    if (score >= 60) return 'C';
+    if (score >= 40) return 'D';
+    return 'F';
+}
+
+function formatDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('pt-BR');
+}
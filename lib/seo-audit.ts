@@ -0,0 +1,393 @@
+import { HTTPResponse, Page } from 'puppeteer';
+import type { ScrapedData } from './scraper';
+import { normalizeUrl } from './page-classifier';
+
+/**
+ * Auditoria de SEO técnico: robots.txt, sitemap.xml, canonical, indexabilidade (noindex),
+ * hreflang, H1 duplicado e tamanho de title/description.
+ */
+
+/**
+ * Tags de SEO técnico extraídas de cada página durante o scraping.
+ */
+export interface SeoTags {
+    canonical: string[]; // Todos os <link rel="canonical"> (mais de um é erro)
+    metaRobots: string; // Conteúdo de <meta name="robots">
+    xRobotsTag: string; // Cabeçalho HTTP X-Robots-Tag
+    hreflang: { lang: string; href: string }[];
+}
+
+export type SeoIssueSeverity = 'erro' | 'aviso';
+
+export interface SeoIssue {
+    code: string; // Identificador estável (ex: 'noindex', 'title-length')
+    severity: SeoIssueSeverity;
+    message: string;
+    url?: string; // Página afetada (ausente para problemas do site todo)
+}
+
+export interface RobotsTxtReport {
+    found: boolean;
+    status: number | null;
+    disallowAll: boolean; // Disallow: / no grupo seguido pelo Googlebot (o próprio ou, na falta dele, o *)
+    blockedUrls: string[]; // Páginas analisadas bloqueadas para o Googlebot
+    sitemaps: string[]; // Diretivas Sitemap:
+}
+
+export interface SitemapReport {
+    url: string;
+    found: boolean;
+    status: number | null;
+    type: 'urlset' | 'sitemapindex' | null;
+    urlCount: number; // <loc> de páginas (urlset) ou de sitemaps filhos (sitemapindex)
+    containsAnalyzedUrl: boolean | null; // null quando não é possível verificar (sitemapindex)
+}
+
+export interface SeoAuditReport {
+    score: number; // 0-100
+    robots: RobotsTxtReport;
+    sitemap: SitemapReport;
+    pagesAudited: number;
+    issues: SeoIssue[];
+}
+
+// Faixas recomendadas (em caracteres) para o snippet na busca
+const TITLE_LENGTH = { min: 30, max: 60 };
+const DESCRIPTION_LENGTH = { min: 70, max: 160 };
+
+// Penalidade aplicada ao score por problema
+const SEVERITY_PENALTY: Record<SeoIssueSeverity, number> = { erro: 15, aviso: 5 };
+
+// Limite de bytes baixados de robots.txt e sitemap.xml (o download é interrompido ao atingi-lo)
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const HREFLANG_PATTERN = /^([a-z]{2,3}(-[a-z]{2}|-[a-z]{4})?|x-default)$/i;
+
+/**
+ * Extrai canonical, meta robots, X-Robots-Tag e hreflang da página carregada.
+ */
+export async function extractSeoTags(page: Page, response: HTTPResponse | null): Promise<SeoTags> {
+    const tags = await page.evaluate(() => ({
+        canonical: Array.from(document.querySelectorAll('link[rel="canonical"]'))
+            .map((link) => (link as HTMLLinkElement).href),
+        metaRobots: document.querySelector('meta[name="robots" i]')?.getAttribute('content') || '',
+        hreflang: Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]')).map((link) => ({
+            lang: link.getAttribute('hreflang') || '',
+            href: (link as HTMLLinkElement).href,
+        })),
+    }));
+
+    return {
+        ...tags,
+        xRobotsTag: response?.headers()['x-robots-tag'] || '',
+    };
+}
+
+/**
+ * Executa a auditoria de SEO técnico sobre a página enviada e as páginas do crawl.
+ *
+ * @param scrapedData Resultado do scraping (inclui as páginas internas do crawl)
+ * @returns Relatório com score e lista de problemas
+ */
+export async function auditTechnicalSeo(scrapedData: ScrapedData): Promise<SeoAuditReport> {
+    console.log(`🔎 Iniciando auditoria de SEO técnico para: ${scrapedData.url}`);
+
+    const pages = [scrapedData, ...(scrapedData.crawl?.pages || [])];
+    const origin = new URL(scrapedData.url).origin;
+    const issues: SeoIssue[] = [];
+
+    const robots = await fetchRobotsTxt(origin, pages.map((page) => page.url));
+    const sitemap = await fetchSitemap(robots.sitemaps[0] || `${origin}/sitemap.xml`, scrapedData.url);
+
+    // Problemas do site todo
+    if (!robots.found) {
+        issues.push({ code: 'robots-missing', severity: 'aviso', message: 'robots.txt não encontrado.' });
+    }
+    if (robots.disallowAll) {
+        issues.push({ code: 'robots-disallow-all', severity: 'erro', message: 'robots.txt bloqueia todo o site (Disallow: /).' });
+    }
+    robots.blockedUrls.forEach((url) => {
+        issues.push({ code: 'robots-blocked', severity: 'erro', message: 'Página bloqueada pelo robots.txt.', url });
+    });
+    if (robots.found && robots.sitemaps.length === 0) {
+        issues.push({ code: 'robots-no-sitemap', severity: 'aviso', message: 'robots.txt não informa a localização do sitemap.' });
+    }
+    if (!sitemap.found) {
+        issues.push({ code: 'sitemap-missing', severity: 'erro', message: `Sitemap não encontrado em ${sitemap.url}.` });
+    } else if (sitemap.urlCount === 0) {
+        issues.push({ code: 'sitemap-empty', severity: 'erro', message: 'O sitemap não contém URLs.' });
+    } else if (sitemap.containsAnalyzedUrl === false) {
+        issues.push({ code: 'sitemap-missing-url', severity: 'aviso', message: 'A URL analisada não está no sitemap.', url: scrapedData.url });
+    }
+
+    // Problemas de cada página
+    pages.forEach((page) => issues.push(...auditPage(page)));
+
+    // Títulos e H1 repetidos entre páginas diferentes
+    issues.push(...findDuplicates(pages, (page) => page.title, 'duplicate-title', 'Título repetido em outra página analisada'));
+    issues.push(...findDuplicates(pages, (page) => page.headings.h1[0], 'duplicate-h1', 'H1 repetido em outra página analisada'));
+
+    const penalty = issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+
+    console.log(`✅ Auditoria de SEO concluída: ${issues.length} problemas encontrados.`);
+
+    return {
+        score: Math.max(0, 100 - penalty),
+        robots,
+        sitemap,
+        pagesAudited: pages.length,
+        issues,
+    };
+}
+
+/**
+ * Verifica as tags e o conteúdo de SEO de uma página.
+ */
+function auditPage(page: ScrapedData): SeoIssue[] {
+    const issues: SeoIssue[] = [];
+    const url = page.url;
+    const tags = page.seoTags;
+
+    // Title e description
+    const title = page.title.trim();
+    if (!title) {
+        issues.push({ code: 'title-missing', severity: 'erro', message: 'Página sem <title>.', url });
+    } else if (title.length < TITLE_LENGTH.min || title.length > TITLE_LENGTH.max) {
+        issues.push({
+            code: 'title-length',
+            severity: 'aviso',
+            message: `Título com ${title.length} caracteres (recomendado: ${TITLE_LENGTH.min} a ${TITLE_LENGTH.max}).`,
+            url,
+        });
+    }
+
+    const description = page.metaDescription.trim();
+    if (!description) {
+        issues.push({ code: 'description-missing', severity: 'erro', message: 'Página sem meta description.', url });
+    } else if (description.length < DESCRIPTION_LENGTH.min || description.length > DESCRIPTION_LENGTH.max) {
+        issues.push({
+            code: 'description-length',
+            severity: 'aviso',
+            message: `Meta description com ${description.length} caracteres (recomendado: ${DESCRIPTION_LENGTH.min} a ${DESCRIPTION_LENGTH.max}).`,
+            url,
+        });
+    }
+
+    // H1
+    if (page.headings.h1.length === 0) {
+        issues.push({ code: 'h1-missing', severity: 'erro', message: 'Página sem H1.', url });
+    } else if (page.headings.h1.length > 1) {
+        issues.push({ code: 'h1-multiple', severity: 'aviso', message: `Página com ${page.headings.h1.length} H1.`, url });
+    }
+
+    // Sem as tags (auditoria falhou na página) só title, description e H1 são avaliados
+    if (!tags) return issues;
+
+    // Indexabilidade
+    if (/noindex/i.test(tags.metaRobots)) {
+        issues.push({ code: 'noindex', severity: 'erro', message: 'Meta robots com noindex: a página não aparece na busca.', url });
+    }
+    if (/noindex/i.test(tags.xRobotsTag)) {
+        issues.push({ code: 'noindex-header', severity: 'erro', message: 'Cabeçalho X-Robots-Tag com noindex.', url });
+    }
+
+    // Canonical
+    if (tags.canonical.length === 0) {
+        issues.push({ code: 'canonical-missing', severity: 'aviso', message: 'Página sem link canonical.', url });
+    } else if (tags.canonical.length > 1) {
+        issues.push({ code: 'canonical-multiple', severity: 'erro', message: `Página com ${tags.canonical.length} links canonical.`, url });
+    } else if (normalizeUrl(tags.canonical[0]) !== normalizeUrl(url)) {
+        issues.push({ code: 'canonical-other', severity: 'aviso', message: `Canonical aponta para outra URL: ${tags.canonical[0]}`, url });
+    }
+
+    // Hreflang
+    if (tags.hreflang.length > 0) {
+        const invalid = tags.hreflang.filter((alternate) => !HREFLANG_PATTERN.test(alternate.lang));
+        if (invalid.length > 0) {
+            issues.push({
+                code: 'hreflang-invalid',
+                severity: 'erro',
+                message: `Códigos hreflang inválidos: ${invalid.map((alternate) => alternate.lang).join(', ')}.`,
+                url,
+            });
+        }
+        if (!tags.hreflang.some((alternate) => normalizeUrl(alternate.href) === normalizeUrl(url))) {
+            issues.push({ code: 'hreflang-self', severity: 'aviso', message: 'Hreflang sem referência à própria página.', url });
+        }
+        if (!tags.hreflang.some((alternate) => alternate.lang.toLowerCase() === 'x-default')) {
+            issues.push({ code: 'hreflang-x-default', severity: 'aviso', message: 'Hreflang sem x-default.', url });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Aponta valores repetidos (ex: título) entre páginas diferentes.
+ */
+function findDuplicates(
+    pages: ScrapedData[],
+    getValue: (page: ScrapedData) => string | undefined,
+    code: string,
+    message: string
+): SeoIssue[] {
+    const byValue = new Map<string, string[]>();
+    pages.forEach((page) => {
+        const value = getValue(page)?.trim().toLowerCase();
+        if (!value) return;
+        byValue.set(value, [...(byValue.get(value) || []), page.url]);
+    });
+
+    return Array.from(byValue.values())
+        .filter((urls) => urls.length > 1)
+        .flatMap((urls) => urls.map((url) => ({ code, severity: 'aviso' as const, message: `${message}.`, url })));
+}
+
+/**
+ * Baixa um arquivo de texto com timeout e limite de tamanho.
+ */
+async function fetchText(url: string): Promise<{ status: number | null; text: string }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+    try {
+        const response = await fetch(url, { signal: controller.signal, redirect: 'follow' });
+        const text = response.ok ? await readLimited(response, MAX_FILE_SIZE) : '';
+        if (!response.ok) await response.body?.cancel().catch(() => undefined);
+        return { status: response.status, text };
+    } catch (error) {
+        console.warn(`⚠️ Falha ao baixar ${url}:`, error instanceof Error ? error.message : error);
+        return { status: null, text: '' };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/**
+ * Lê o corpo em streaming e cancela o download ao atingir o limite de bytes,
+ * para que um arquivo gigante não seja baixado nem mantido inteiro em memória.
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<string> {
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let received = 0;
+    let text = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const remaining = maxBytes - received;
+        const chunk = value.byteLength > remaining ? value.subarray(0, remaining) : value;
+        received += chunk.byteLength;
+        text += decoder.decode(chunk, { stream: true });
+
+        if (received >= maxBytes) {
+            await reader.cancel().catch(() => undefined);
+            break;
+        }
+    }
+
+    return text + decoder.decode();
+}
+
+/**
+ * Baixa e interpreta o robots.txt (grupos User-agent * e Googlebot).
+ */
+async function fetchRobotsTxt(origin: string, urls: string[]): Promise<RobotsTxtReport> {
+    const { status, text } = await fetchText(`${origin}/robots.txt`);
+    const found = status !== null && status >= 200 && status < 300;
+
+    const groups = new Map<string, { allow: string[]; disallow: string[] }>();
+    const sitemaps: string[] = [];
+    let agents: string[] = [];
+    let lastWasAgent = false;
+
+    text.split(/\r?\n/).forEach((rawLine) => {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) return;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'sitemap') {
+            if (value) sitemaps.push(value);
+            return;
+        }
+        if (field === 'user-agent') {
+            // User-agents consecutivos compartilham o mesmo grupo de regras
+            agents = lastWasAgent ? [...agents, value.toLowerCase()] : [value.toLowerCase()];
+            agents.forEach((agent) => {
+                if (!groups.has(agent)) groups.set(agent, { allow: [], disallow: [] });
+            });
+            lastWasAgent = true;
+            return;
+        }
+        lastWasAgent = false;
+        if ((field === 'allow' || field === 'disallow') && value) {
+            agents.forEach((agent) => groups.get(agent)?.[field].push(value));
+        }
+    });
+
+    // O Googlebot segue o próprio grupo quando existe; senão, o grupo *
+    const rules = groups.get('googlebot') || groups.get('*') || { allow: [], disallow: [] };
+
+    return {
+        found,
+        status,
+        // Allow: / no mesmo grupo empata com o Disallow: / e, como no Google, o Allow vence
+        disallowAll: rules.disallow.includes('/') && !rules.allow.includes('/'),
+        blockedUrls: urls.filter((url) => isBlockedByRobots(url, rules)),
+        sitemaps,
+    };
+}
+
+/**
+ * Aplica a regra mais específica (maior prefixo) entre Allow e Disallow, como o Google faz.
+ */
+function isBlockedByRobots(url: string, rules: { allow: string[]; disallow: string[] }): boolean {
+    const { pathname, search } = new URL(url);
+    const path = pathname + search;
+
+    const longestMatch = (patterns: string[]) => patterns
+        .filter((pattern) => robotsPatternToRegex(pattern).test(path))
+        .reduce((max, pattern) => Math.max(max, pattern.length), -1);
+
+    const disallow = longestMatch(rules.disallow);
+    return disallow >= 0 && disallow > longestMatch(rules.allow);
+}
+
+/**
+ * Converte um padrão do robots.txt (com * e $ final) em regex.
+ */
+function robotsPatternToRegex(pattern: string): RegExp {
+    const escaped = pattern
+        .replace(/[.+?^{}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}`);
+}
+
+/**
+ * Baixa o sitemap e conta as URLs (ou os sitemaps filhos, no caso de sitemapindex).
+ */
+async function fetchSitemap(url: string, analyzedUrl: string): Promise<SitemapReport> {
+    const { status, text } = await fetchText(url);
+    const isIndex = /<sitemapindex[\s>]/i.test(text);
+    const isUrlset = /<urlset[\s>]/i.test(text);
+    const locs = Array.from(text.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi))
+        .map((match) => match[1].replace(/&amp;/g, '&'));
+
+    const normalizedAnalyzed = normalizeUrl(analyzedUrl);
+
+    return {
+        url,
+        found: isIndex || isUrlset,
+        status,
+        type: isIndex ? 'sitemapindex' : isUrlset ? 'urlset' : null,
+        urlCount: locs.length,
+        containsAnalyzedUrl: isUrlset ? locs.some((loc) => normalizeUrl(loc) === normalizedAnalyzed) : null,
+    };
+}
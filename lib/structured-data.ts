@@ -0,0 +1,298 @@
+import { Page } from 'puppeteer';
+
+/**
+ * Extração e validação de dados estruturados (Schema.org) em JSON-LD e microdata.
+ * Sem Product/Offer válidos a loja perde rich results (preço, estoque, estrelas)
+ * na busca e no Google Shopping.
+ */
+
+export type SchemaType = 'Product' | 'Offer' | 'AggregateRating' | 'BreadcrumbList' | 'Organization';
+
+type SchemaNode = Record<string, unknown>;
+
+/**
+ * Item bruto encontrado na página, antes da validação.
+ */
+interface RawStructuredItem {
+    source: 'json-ld' | 'microdata';
+    data: SchemaNode;
+}
+
+export interface StructuredDataEntity {
+    type: SchemaType;
+    source: 'json-ld' | 'microdata';
+    summary: Record<string, string>; // Principais valores encontrados (ex: name, price)
+    missingRequired: string[];
+    missingRecommended: string[];
+    valid: boolean;
+}
+
+export interface StructuredDataIssue {
+    schemaType: SchemaType | 'JSON-LD';
+    field: string;
+    severity: 'erro' | 'aviso';
+    message: string;
+}
+
+export interface StructuredDataReport {
+    jsonLdBlocks: number;
+    microdataItems: number;
+    parseErrors: number; // Blocos JSON-LD com JSON inválido
+    detectedTypes: string[]; // Todos os @type encontrados, inclusive os não validados
+    entities: StructuredDataEntity[];
+    issues: StructuredDataIssue[];
+    eligibleForRichResults: boolean; // Product com Offer válido
+}
+
+/**
+ * Regras de validação por tipo (baseadas na documentação de rich results do Google).
+ * Cada campo obrigatório pode ter alternativas (ex: reviewCount ou ratingCount).
+ */
+const SCHEMA_RULES: Record<SchemaType, { required: string[][]; recommended: string[] }> = {
+    Product: {
+        required: [['name'], ['image'], ['offers', 'aggregateRating', 'review']],
+        recommended: ['description', 'sku', 'brand', 'gtin13', 'offers', 'aggregateRating'],
+    },
+    Offer: {
+        required: [['price', 'lowPrice', 'priceSpecification'], ['priceCurrency'], ['availability']],
+        recommended: ['url', 'itemCondition', 'priceValidUntil', 'seller'],
+    },
+    AggregateRating: {
+        required: [['ratingValue'], ['reviewCount', 'ratingCount']],
+        recommended: ['bestRating', 'worstRating'],
+    },
+    BreadcrumbList: {
+        required: [['itemListElement']],
+        recommended: [],
+    },
+    Organization: {
+        required: [['name'], ['url']],
+        recommended: ['logo', 'sameAs', 'contactPoint'],
+    },
+};
+
+const VALIDATED_TYPES = Object.keys(SCHEMA_RULES) as SchemaType[];
+
+// Campos exibidos no resumo de cada entidade
+const SUMMARY_FIELDS = ['name', 'price', 'lowPrice', 'priceCurrency', 'availability', 'ratingValue', 'reviewCount', 'sku', 'url'];
+
+/**
+ * Extrai os blocos JSON-LD e os itens de microdata da página e valida os tipos de e-commerce.
+ */
+export async function extractStructuredData(page: Page): Promise<StructuredDataReport> {
+    const { items, jsonLdBlocks, parseErrors } = await page.evaluate(() => {
+        const found: { source: 'json-ld' | 'microdata'; data: Record<string, unknown> }[] = [];
+        let errors = 0;
+
+        // 1. JSON-LD
+        const blocks = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
+        blocks.forEach((block) => {
+            try {
+                const parsed = JSON.parse(block.textContent || '');
+                const roots = Array.isArray(parsed) ? parsed : [parsed];
+                roots.forEach((root) => {
+                    // @graph agrupa várias entidades em um único bloco
+                    const nodes = root && Array.isArray(root['@graph']) ? root['@graph'] : [root];
+                    nodes.forEach((node: unknown) => {
+                        if (node && typeof node === 'object') found.push({ source: 'json-ld', data: node as Record<string, unknown> });
+                    });
+                });
+            } catch {
+                errors++;
+            }
+        });
+
+        // 2. Microdata (itemscope/itemprop), convertido para o mesmo formato do JSON-LD
+        const readMicrodata = (scope: Element): Record<string, unknown> => {
+            const itemType = scope.getAttribute('itemtype') || '';
+            const result: Record<string, unknown> = { '@type': itemType.split('/').pop() || '' };
+
+            scope.querySelectorAll('[itemprop]').forEach((propEl) => {
+                // Ignora propriedades que pertencem a um itemscope aninhado
+                const owner = propEl.parentElement?.closest('[itemscope]');
+                if (owner !== scope) return;
+
+                const name = propEl.getAttribute('itemprop') || '';
+                const value = propEl.hasAttribute('itemscope')
+                    ? readMicrodata(propEl)
+                    : propEl.getAttribute('content') ||
+                      propEl.getAttribute('href') ||
+                      propEl.getAttribute('src') ||
+                      (propEl.textContent || '').trim();
+
+                const current = result[name];
+                if (current === undefined) result[name] = value;
+                else result[name] = Array.isArray(current) ? [...current, value] : [current, value];
+            });
+
+            return result;
+        };
+
+        const microdataRoots = Array.from(document.querySelectorAll('[itemscope]')).filter((el) => !el.hasAttribute('itemprop'));
+        microdataRoots.forEach((root) => found.push({ source: 'microdata', data: readMicrodata(root) }));
+
+        return { items: found, jsonLdBlocks: blocks.length, parseErrors: errors };
+    });
+
+    return validateStructuredData(items, jsonLdBlocks, parseErrors);
+}
+
+/**
+ * Normaliza o @type (pode ser string, array ou URL completa do schema.org).
+ */
+function getTypes(node: SchemaNode): string[] {
+    const raw = node['@type'];
+    const types = Array.isArray(raw) ? raw : [raw];
+    return types
+        .filter((type): type is string => typeof type === 'string' && type.length > 0)
+        .map((type) => type.split('/').pop() || type);
+}
+
+/**
+ * Percorre a árvore de um item e coleta todos os nós com @type (inclusive aninhados, como Product.offers).
+ */
+function collectNodes(value: unknown, source: RawStructuredItem['source'], acc: RawStructuredItem[]) {
+    if (Array.isArray(value)) {
+        value.forEach((child) => collectNodes(child, source, acc));
+        return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const node = value as SchemaNode;
+    if (getTypes(node).length > 0) acc.push({ source, data: node });
+
+    Object.entries(node).forEach(([key, child]) => {
+        if (key !== '@type' && key !== '@context') collectNodes(child, source, acc);
+    });
+}
+
+function hasValue(node: SchemaNode, field: string): boolean {
+    const value = node[field];
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+}
+
+function toText(value: unknown): string {
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+    if (value && typeof value === 'object' && 'name' in value) return String((value as SchemaNode).name);
+    return '';
+}
+
+/**
+ * Verificações de formato dos valores (além da presença dos campos).
+ */
+function validateValues(type: SchemaType, node: SchemaNode): StructuredDataIssue[] {
+    const issues: StructuredDataIssue[] = [];
+
+    if (type === 'Offer') {
+        const price = toText(node.price ?? node.lowPrice);
+        if (price && !/^\d+(\.\d+)?$/.test(price.trim())) {
+            issues.push({
+                schemaType: type,
+                field: 'price',
+                severity: 'erro',
+                message: `Preço "${price}" fora do formato numérico (use ponto como separador decimal, sem "R$").`,
+            });
+        }
+
+        const currency = toText(node.priceCurrency);
+        if (currency && !/^[A-Z]{3}$/.test(currency)) {
+            issues.push({
+                schemaType: type,
+                field: 'priceCurrency',
+                severity: 'erro',
+                message: `Moeda "${currency}" inválida (use o código ISO 4217, ex: BRL).`,
+            });
+        }
+
+        const availability = toText(node.availability);
+        if (availability && !/schema\.org\/\w+$|^(InStock|OutOfStock|PreOrder|BackOrder|LimitedAvailability|SoldOut|Discontinued|InStoreOnly|OnlineOnly)$/.test(availability)) {
+            issues.push({
+                schemaType: type,
+                field: 'availability',
+                severity: 'aviso',
+                message: `Disponibilidade "${availability}" fora do vocabulário schema.org (ex: https://schema.org/InStock).`,
+            });
+        }
+    }
+
+    if (type === 'AggregateRating') {
+        const rating = parseFloat(toText(node.ratingValue));
+        if (toText(node.ratingValue) && isNaN(rating)) {
+            issues.push({ schemaType: type, field: 'ratingValue', severity: 'erro', message: 'Nota média (ratingValue) não numérica.' });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Valida os itens extraídos e monta o relatório de dados estruturados.
+ */
+function validateStructuredData(items: RawStructuredItem[], jsonLdBlocks: number, parseErrors: number): StructuredDataReport {
+    const nodes: RawStructuredItem[] = [];
+    items.forEach((item) => collectNodes(item.data, item.source, nodes));
+
+    const detectedTypes = Array.from(new Set(nodes.flatMap((node) => getTypes(node.data))));
+    const entities: StructuredDataEntity[] = [];
+    const issues: StructuredDataIssue[] = [];
+
+    if (parseErrors > 0) {
+        issues.push({
+            schemaType: 'JSON-LD',
+            field: 'script',
+            severity: 'erro',
+            message: `${parseErrors} bloco(s) JSON-LD com JSON inválido são ignorados pelo Google.`,
+        });
+    }
+
+    nodes.forEach(({ source, data }) => {
+        // AggregateOffer é validado com as regras de Offer (lowPrice substitui price)
+        const types = getTypes(data).map((type) => (type === 'AggregateOffer' ? 'Offer' : type));
+        const type = VALIDATED_TYPES.find((candidate) => types.includes(candidate));
+        if (!type) return;
+
+        const rules = SCHEMA_RULES[type];
+        const missingRequired = rules.required
+            .filter((alternatives) => !alternatives.some((field) => hasValue(data, field)))
+            .map((alternatives) => alternatives.join(' ou '));
+        const missingRecommended = rules.recommended.filter((field) => !hasValue(data, field));
+
+        const summary: Record<string, string> = {};
+        SUMMARY_FIELDS.forEach((field) => {
+            const text = toText(data[field]);
+            if (text) summary[field] = text;
+        });
+
+        missingRequired.forEach((field) => {
+            issues.push({ schemaType: type, field, severity: 'erro', message: `${type} sem o campo obrigatório "${field}".` });
+        });
+        const valueIssues = validateValues(type, data);
+        issues.push(...valueIssues);
+
+        entities.push({
+            type,
+            source,
+            summary,
+            missingRequired,
+            missingRecommended,
+            valid: missingRequired.length === 0 && !valueIssues.some((issue) => issue.severity === 'erro'),
+        });
+    });
+
+    const eligibleForRichResults =
+        entities.some((entity) => entity.type === 'Product' && entity.valid) &&
+        entities.some((entity) => entity.type === 'Offer' && entity.valid);
+
+    return {
+        jsonLdBlocks,
+        microdataItems: items.filter((item) => item.source === 'microdata').length,
+        parseErrors,
+        detectedTypes,
+        entities,
+        issues,
+        eligibleForRichResults,
+    };
+}
@@ -1,4 +1,6 @@
 import { env } from './env';
+import { detectLocalTechnologies, type FingerprintEvidence } from './technology-fingerprint';
+import { checkTechnologyRisks, type TechnologyRisk } from './technology-risks';
 
 // Interfaces para a resposta da API BuiltWith
 interface BuiltWithTechnology {
@@ -41,6 +43,10 @@ export interface DetectedTechnology {
     firstDetected: string; // Data formatada
     lastDetected: string; // Data formatada
     categories: string[];
+    version?: string; // Versão detectada localmente (ex: jQuery 3.4.1)
+    risks?: TechnologyRisk[]; // Fim de suporte ou vulnerabilidades conhecidas para a versão
+    source?: 'builtwith' | 'local'; // Origem da detecção
+    evidence?: string[]; // Evidências encontradas (apenas detecção local)
 }
 
 export interface TechnologyAnalysis {
@@ -78,97 +84,135 @@ function formatDate(timestamp: number): string {
 }
 
 /**
- * Detecta tecnologias usadas em um site usando a API BuiltWith.
- * 
- * @param url URL completa ou domínio do site
- * @returns Análise detalhada das tecnologias encontradas
+ * Agrupa as tecnologias por categoria e monta o resultado da análise.
  */
-export async function detectTechnologies(url: string): Promise<TechnologyAnalysis> {
-    const domain = extractDomain(url);
-    console.log(`🔍 Iniciando detecção de tecnologias para: ${domain}`);
+function buildAnalysis(technologies: DetectedTechnology[], error?: string): TechnologyAnalysis {
+    const groupedByCategory: Record<string, DetectedTechnology[]> = {};
+    technologies.forEach(tech => {
+        const cat = tech.category || 'Outros';
+        if (!groupedByCategory[cat]) {
+            groupedByCategory[cat] = [];
+        }
+        groupedByCategory[cat].push(tech);
+    });
 
-    // Validação da API Key
-    if (!env.BUILTWITH_API_KEY) {
-        console.error('❌ BUILTWITH_API_KEY não configurada.');
-        return {
-            technologies: [],
-            groupedByCategory: {},
-            totalTechnologies: 0,
-            lastUpdated: new Date().toISOString(),
-            error: 'Chave de API BuiltWith não configurada.',
-        };
+    return {
+        technologies,
+        groupedByCategory,
+        totalTechnologies: technologies.length,
+        lastUpdated: new Date().toISOString(),
+        ...(error ? { error } : {}),
+    };
+}
+
+/**
+ * Consulta a API BuiltWith.
+ */
+async function fetchBuiltWithTechnologies(domain: string, apiKey: string): Promise<DetectedTechnology[]> {
+    // Rate Limiting: Aguarda 1 segundo para respeitar limites da API (especialmente Free Tier)
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const apiUrl = `https://api.builtwith.com/v21/api.json?KEY=${apiKey}&LOOKUP=${domain}`;
+
+    const response = await fetch(apiUrl);
+
+    if (!response.ok) {
+        throw new Error(`Erro na requisição BuiltWith: ${response.status} ${response.statusText}`);
     }
 
-    try {
-        // Rate Limiting: Aguarda 1 segundo para respeitar limites da API (especialmente Free Tier)
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+    const data: BuiltWithResponse = await response.json();
+
+    // Verifica erros retornados pela API
+    if (data.Errors && data.Errors.length > 0) {
+        throw new Error(`Erro da API BuiltWith: ${data.Errors[0].Message}`);
+    }
 
-        const apiUrl = `https://api.builtwith.com/v21/api.json?KEY=${env.BUILTWITH_API_KEY}&LOOKUP=${domain}`;
+    // Processa os resultados
+    // A API pode retornar múltiplos caminhos, pegamos o primeiro que contém tecnologias
+    const result = data.Results?.[0]?.Result;
+    const pathWithTech = result?.Paths?.find(p => p.Technologies && p.Technologies.length > 0);
 
-        const response = await fetch(apiUrl);
+    if (!pathWithTech || !pathWithTech.Technologies) {
+        console.log('⚠️ BuiltWith não retornou tecnologias para este domínio.');
+        return [];
+    }
 
-        if (!response.ok) {
-            throw new Error(`Erro na requisição BuiltWith: ${response.status} ${response.statusText}`);
-        }
+    // Mapeia para nosso formato
+    return pathWithTech.Technologies.map(tech => ({
+        name: tech.Name,
+        category: tech.Tag,
+        firstDetected: formatDate(tech.FirstDetected),
+        lastDetected: formatDate(tech.LastDetected),
+        categories: tech.Categories || [tech.Tag],
+        source: 'builtwith' as const,
+    }));
+}
+
+/**
+ * Detecta tecnologias usadas em um site.
+ * Combina a detecção local (evidências coletadas pelo scraper) com a API BuiltWith, quando configurada.
+ * Em caso de nomes repetidos, prevalece o registro do BuiltWith (que traz o histórico de detecção).
+ *
+ * @param url URL completa ou domínio do site
+ * @param evidences Evidências de fingerprinting de cada página analisada
+ * @returns Análise detalhada das tecnologias encontradas
+ */
+export async function detectTechnologies(
+    url: string,
+    evidences: FingerprintEvidence[] = []
+): Promise<TechnologyAnalysis> {
+    const domain = extractDomain(url);
+    console.log(`🔍 Iniciando detecção de tecnologias para: ${domain}`);
 
-        const data: BuiltWithResponse = await response.json();
+    const today = formatDate(Date.now());
+    const localTechnologies: DetectedTechnology[] = detectLocalTechnologies(evidences).map(tech => ({
+        name: tech.name,
+        category: tech.category,
+        firstDetected: today,
+        lastDetected: today,
+        categories: [tech.category],
+        version: tech.version,
+        risks: checkTechnologyRisks(tech.name, tech.version),
+        source: 'local' as const,
+        evidence: tech.evidence,
+    }));
+    console.log(`🧩 Detecção local: ${localTechnologies.length} tecnologias encontradas.`);
+
+    let builtWithTechnologies: DetectedTechnology[] = [];
+    let builtWithError: string | undefined;
 
-        // Verifica erros retornados pela API
-        if (data.Errors && data.Errors.length > 0) {
-            throw new Error(`Erro da API BuiltWith: ${data.Errors[0].Message}`);
+    if (!env.BUILTWITH_API_KEY) {
+        console.log('ℹ️ BUILTWITH_API_KEY não configurada, usando apenas a detecção local.');
+        builtWithError = 'Chave de API BuiltWith não configurada.';
+    } else {
+        try {
+            builtWithTechnologies = await fetchBuiltWithTechnologies(domain, env.BUILTWITH_API_KEY);
+        } catch (error) {
+            console.error('❌ Erro ao consultar BuiltWith:', error);
+            builtWithError = error instanceof Error ? error.message : 'Erro desconhecido ao buscar tecnologias.';
         }
+    }
 
-        // Processa os resultados
-        // A API pode retornar múltiplos caminhos, pegamos o primeiro que contém tecnologias
-        const result = data.Results?.[0]?.Result;
-        const pathWithTech = result?.Paths?.find(p => p.Technologies && p.Technologies.length > 0);
-
-        if (!pathWithTech || !pathWithTech.Technologies) {
-            console.log('⚠️ Nenhuma tecnologia detectada para este domínio.');
-            return {
-                technologies: [],
-                groupedByCategory: {},
-                totalTechnologies: 0,
-                lastUpdated: new Date().toISOString(),
-            };
+    // Mescla as duas fontes pelo nome normalizado (a versão vem sempre da detecção local)
+    const merged = new Map<string, DetectedTechnology>();
+    [...builtWithTechnologies, ...localTechnologies].forEach(tech => {
+        const key = tech.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, tech);
+        } else if (tech.version && !existing.version) {
+            merged.set(key, { ...existing, version: tech.version, risks: tech.risks });
         }
+    });
+    const technologies = Array.from(merged.values());
 
-        // Mapeia para nosso formato
-        const technologies: DetectedTechnology[] = pathWithTech.Technologies.map(tech => ({
-            name: tech.Name,
-            category: tech.Tag,
-            firstDetected: formatDate(tech.FirstDetected),
-            lastDetected: formatDate(tech.LastDetected),
-            categories: tech.Categories || [tech.Tag],
-        }));
-
-        // Agrupa por categoria
-        const groupedByCategory: Record<string, DetectedTechnology[]> = {};
-        technologies.forEach(tech => {
-            const cat = tech.category || 'Outros';
-            if (!groupedByCategory[cat]) {
-                groupedByCategory[cat] = [];
-            }
-            groupedByCategory[cat].push(tech);
-        });
-
-        console.log(`✅ Detecção concluída: ${technologies.length} tecnologias encontradas.`);
-
-        return {
-            technologies,
-            groupedByCategory,
-            totalTechnologies: technologies.length,
-            lastUpdated: new Date().toISOString(),
-        };
-
-    } catch (error: any) {
-        console.error('❌ Erro ao detectar tecnologias:', error);
-        return {
-            technologies: [],
-            groupedByCategory: {},
-            totalTechnologies: 0,
-            lastUpdated: new Date().toISOString(),
-            error: error.message || 'Erro desconhecido ao buscar tecnologias.',
-        };
+    const atRisk = technologies.filter(tech => tech.risks && tech.risks.length > 0);
+    if (atRisk.length > 0) {
+        console.log(`⚠️ Componentes desatualizados ou vulneráveis: ${atRisk.map(tech => `${tech.name} ${tech.version}`).join(', ')}`);
     }
+
+    console.log(`✅ Detecção concluída: ${technologies.length} tecnologias encontradas.`);
+
+    // O erro só é relevante quando nenhuma fonte retornou resultados
+    return buildAnalysis(technologies, technologies.length === 0 ? builtWithError : undefined);
 }
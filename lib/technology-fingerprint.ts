@@ -0,0 +1,272 @@
+import { HTTPResponse, Page } from 'puppeteer';
+import technologyRules from './data/technology-rules.json';
+import type { NetworkReport } from './network-capture';
+
+/**
+ * Detecção local de tecnologias (alternativa offline ao BuiltWith).
+ * As evidências (scripts, cabeçalhos, cookies, variáveis globais e DOM) são coletadas durante o scraping
+ * e comparadas com as regras de lib/data/technology-rules.json.
+ */
+
+// Fonte da versão: o grupo 1 da regex (ou o valor da variável global) é a versão.
+// Quando `value` é informado, basta a evidência existir (ex: Mage.Cookies -> Magento 1).
+interface VersionRule {
+    scriptSrc?: string;
+    js?: string;
+    meta?: string;
+    dom?: string;
+    pattern?: string; // Regex aplicada ao conteúdo da meta tag ou ao valor da variável global
+    value?: string;
+}
+
+interface TechnologyRule {
+    category: string;
+    scriptSrc?: string[]; // Regex aplicadas às URLs de scripts
+    headers?: Record<string, string>; // Cabeçalho -> regex do valor ('' = basta existir)
+    cookies?: string[]; // Regex aplicadas aos nomes de cookies
+    js?: string[]; // Caminhos de variáveis globais (ex: 'Shopify.shop')
+    dom?: string[]; // Seletores CSS
+    meta?: Record<string, string>; // Meta tag (name) -> regex do conteúdo
+    implies?: string[]; // Tecnologias implícitas (ex: WooCommerce -> WordPress)
+    versions?: VersionRule[]; // Fontes de versão, em ordem de prioridade
+}
+
+const RULES = technologyRules as Record<string, TechnologyRule>;
+
+/**
+ * Evidências coletadas na página para o fingerprinting.
+ */
+export interface FingerprintEvidence {
+    scriptSrcs: string[];
+    headers: Record<string, string>; // Cabeçalhos da resposta do documento principal (minúsculos)
+    cookies: string[]; // Nomes dos cookies
+    jsGlobals: string[]; // Variáveis globais das regras que existem na página
+    jsValues: Record<string, string>; // Valores das variáveis globais de versão (ex: jQuery.fn.jquery -> 3.7.1)
+    domSelectors: string[]; // Seletores das regras encontrados no DOM
+    meta: Record<string, string[]>; // Todas as tags com o mesmo name (ex: generator do WordPress e do WooCommerce)
+}
+
+export interface LocalTechnology {
+    name: string;
+    category: string;
+    version?: string;
+    evidence: string[]; // Ex: "script: cdn.shopify.com/...", "cookie: _shopify_y"
+}
+
+// Limite de URLs de script guardadas por página
+const MAX_SCRIPT_SRCS = 200;
+
+/**
+ * Coleta as evidências de fingerprinting da página já carregada.
+ *
+ * @param page Aba com a página carregada
+ * @param response Resposta do documento principal (retorno do page.goto)
+ * @param network Relatório de rede, usado para incluir scripts carregados dinamicamente
+ */
+export async function collectFingerprintEvidence(
+    page: Page,
+    response: HTTPResponse | null,
+    network?: NetworkReport
+): Promise<FingerprintEvidence> {
+    const versionRules = Object.values(RULES).flatMap((rule) => rule.versions || []);
+    const jsPaths = Array.from(new Set([
+        ...Object.values(RULES).flatMap((rule) => rule.js || []),
+        ...versionRules.flatMap((version) => (version.js ? [version.js] : [])),
+    ]));
+    const domSelectors = Array.from(new Set([
+        ...Object.values(RULES).flatMap((rule) => rule.dom || []),
+        ...versionRules.flatMap((version) => (version.dom ? [version.dom] : [])),
+    ]));
+    const valuePaths = Array.from(new Set(
+        versionRules.flatMap((version) => (version.js && !version.value ? [version.js] : []))
+    ));
+
+    const fromPage = await page.evaluate((paths: string[], selectors: string[], versionPaths: string[]) => {
+        // Lê um caminho (ex: 'jQuery.fn.jquery') a partir do objeto window
+        const readGlobal = (path: string) => {
+            let current: unknown = window;
+            for (const key of path.split('.')) {
+                if (current === null || current === undefined) return undefined;
+                current = (current as Record<string, unknown>)[key];
+            }
+            return current;
+        };
+        const hasGlobal = (path: string) => {
+            const value = readGlobal(path);
+            return value !== undefined && value !== null;
+        };
+
+        const jsValues: Record<string, string> = {};
+        versionPaths.forEach((path) => {
+            try {
+                const value = readGlobal(path);
+                if (typeof value === 'string' || typeof value === 'number') jsValues[path] = String(value);
+            } catch {
+                // Getter que lança erro: ignora
+            }
+        });
+
+        const meta: Record<string, string[]> = {};
+        document.querySelectorAll('meta[name]').forEach((tag) => {
+            const name = (tag.getAttribute('name') || '').toLowerCase();
+            if (name) meta[name] = [...(meta[name] || []), tag.getAttribute('content') || ''];
+        });
+
+        return {
+            scriptSrcs: Array.from(document.querySelectorAll('script[src]')).map((el) => (el as HTMLScriptElement).src),
+            jsGlobals: paths.filter((path) => {
+                try {
+                    return hasGlobal(path);
+                } catch {
+                    return false;
+                }
+            }),
+            domSelectors: selectors.filter((selector) => {
+                try {
+                    return !!document.querySelector(selector);
+                } catch {
+                    return false;
+                }
+            }),
+            jsValues,
+            meta,
+        };
+    }, jsPaths, domSelectors, valuePaths);
+
+    const networkScripts = (network?.requests || [])
+        .filter((request) => request.resourceType === 'Script')
+        .map((request) => request.url);
+
+    const cookies = await page.cookies().catch(() => []);
+
+    return {
+        ...fromPage,
+        scriptSrcs: Array.from(new Set([...fromPage.scriptSrcs, ...networkScripts])).slice(0, MAX_SCRIPT_SRCS),
+        headers: response ? response.headers() : {},
+        cookies: cookies.map((cookie) => cookie.name),
+    };
+}
+
+/**
+ * Compara as evidências (de uma ou mais páginas) com as regras e retorna as tecnologias encontradas.
+ */
+export function detectLocalTechnologies(evidences: FingerprintEvidence[]): LocalTechnology[] {
+    const detected = new Map<string, LocalTechnology>();
+
+    const add = (name: string, evidence: string) => {
+        const rule = RULES[name];
+        if (!rule) return;
+        const current = detected.get(name) || { name, category: rule.category, evidence: [] };
+        if (!current.evidence.includes(evidence)) current.evidence.push(evidence);
+        detected.set(name, current);
+    };
+
+    evidences.forEach((evidence) => {
+        Object.entries(RULES).forEach(([name, rule]) => {
+            rule.scriptSrc?.forEach((pattern) => {
+                const regex = new RegExp(pattern, 'i');
+                const match = evidence.scriptSrcs.find((src) => regex.test(src));
+                if (match) add(name, `script: ${match.slice(0, 120)}`);
+            });
+
+            Object.entries(rule.headers || {}).forEach(([header, pattern]) => {
+                const value = evidence.headers[header];
+                if (value !== undefined && (!pattern || new RegExp(pattern, 'i').test(value))) {
+                    add(name, `header: ${header}${value ? `: ${value.slice(0, 60)}` : ''}`);
+                }
+            });
+
+            rule.cookies?.forEach((pattern) => {
+                const regex = new RegExp(pattern, 'i');
+                const match = evidence.cookies.find((cookie) => regex.test(cookie));
+                if (match) add(name, `cookie: ${match}`);
+            });
+
+            rule.js?.forEach((path) => {
+                if (evidence.jsGlobals.includes(path)) add(name, `js: ${path}`);
+            });
+
+            rule.dom?.forEach((selector) => {
+                if (evidence.domSelectors.includes(selector)) add(name, `dom: ${selector}`);
+            });
+
+            Object.entries(rule.meta || {}).forEach(([metaName, pattern]) => {
+                const content = getMetaValues(evidence, metaName).find((value) => new RegExp(pattern, 'i').test(value));
+                if (content) add(name, `meta: ${metaName}=${content}`);
+            });
+        });
+    });
+
+    // Tecnologias implícitas (ex: WooCommerce implica WordPress), antes das versões para que
+    // também recebam versão e avaliação de risco. A fila cobre implicações em cadeia.
+    const queue = Array.from(detected.keys());
+    for (let idx = 0; idx < queue.length; idx++) {
+        const name = queue[idx];
+        RULES[name].implies?.forEach((implied) => {
+            if (!detected.has(implied) && RULES[implied]) queue.push(implied);
+            add(implied, `implícito por ${name}`);
+        });
+    }
+
+    // Versões: usa a primeira fonte que retornar valor, percorrendo todas as páginas
+    detected.forEach((technology) => {
+        const rule = RULES[technology.name];
+        for (const evidence of evidences) {
+            const version = extractVersion(rule, evidence);
+            if (version) {
+                technology.version = version;
+                break;
+            }
+        }
+    });
+
+    return Array.from(detected.values());
+}
+
+/**
+ * Extrai a versão de uma tecnologia a partir das evidências de uma página.
+ */
+function extractVersion(rule: TechnologyRule, evidence: FingerprintEvidence): string | undefined {
+    for (const source of rule.versions || []) {
+        let match: RegExpMatchArray | null = null;
+        let found = false;
+
+        if (source.scriptSrc) {
+            const regex = new RegExp(source.scriptSrc, 'i');
+            const src = evidence.scriptSrcs.find((item) => regex.test(item));
+            if (src) {
+                found = true;
+                match = src.match(regex);
+            }
+        } else if (source.meta) {
+            const regex = new RegExp(source.pattern || '(.+)', 'i');
+            const content = getMetaValues(evidence, source.meta).find((value) => regex.test(value));
+            if (content) {
+                found = true;
+                match = content.match(regex);
+            }
+        } else if (source.js) {
+            // Evidências antigas (antes da detecção de versão) não têm jsValues
+            const value = evidence.jsValues?.[source.js];
+            if (source.value) {
+                found = evidence.jsGlobals.includes(source.js);
+            } else if (value) {
+                match = value.match(new RegExp(source.pattern || '^(\\d+(?:\\.\\d+)*)'));
+                found = !!match;
+            }
+        } else if (source.dom) {
+            found = evidence.domSelectors.includes(source.dom);
+        }
+
+        if (!found) continue;
+        const version = source.value || match?.[1];
+        if (version) return version;
+    }
+    return undefined;
+}
+
+// Evidências antigas guardam um único conteúdo por meta tag
+function getMetaValues(evidence: FingerprintEvidence, name: string): string[] {
+    const values: string[] | string | undefined = evidence.meta[name];
+    return Array.isArray(values) ? values : values ? [values] : [];
+}
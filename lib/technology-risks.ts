@@ -0,0 +1,66 @@
+import vulnerabilityData from './data/technology-vulnerabilities.json';
+
+/**
+ * Verificação de versões desatualizadas (fim de suporte) e com vulnerabilidades conhecidas,
+ * a partir da base local em lib/data/technology-vulnerabilities.json.
+ */
+
+export type TechnologyRiskType = 'vulnerable' | 'eol';
+
+export interface TechnologyRisk {
+    type: TechnologyRiskType;
+    severity?: 'baixa' | 'média' | 'alta' | 'crítica';
+    ids: string[]; // CVEs relacionados
+    summary: string;
+}
+
+interface VulnerabilityEntry {
+    type: TechnologyRiskType;
+    from?: string; // Versão inicial afetada (inclusiva)
+    below: string; // Primeira versão corrigida (exclusiva)
+    severity?: TechnologyRisk['severity'];
+    ids?: string[];
+    summary: string;
+}
+
+const VULNERABILITIES = vulnerabilityData as Record<string, VulnerabilityEntry[]>;
+
+export const TECHNOLOGY_RISK_LABELS: Record<TechnologyRiskType, string> = {
+    vulnerable: 'Vulnerável',
+    eol: 'Sem suporte',
+};
+
+/**
+ * Compara duas versões numéricas (ex: 3.4.1 vs 3.10). Retorna negativo, zero ou positivo.
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split('.').map((part) => parseInt(part, 10) || 0);
+    const partsB = b.split('.').map((part) => parseInt(part, 10) || 0);
+    const length = Math.max(partsA.length, partsB.length);
+
+    for (let i = 0; i < length; i++) {
+        const diff = (partsA[i] || 0) - (partsB[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Retorna os riscos conhecidos para a versão de uma tecnologia.
+ */
+export function checkTechnologyRisks(name: string, version?: string): TechnologyRisk[] {
+    const entries = VULNERABILITIES[name];
+    if (!entries || !version) return [];
+
+    return entries
+        .filter((entry) =>
+            compareVersions(version, entry.below) < 0 &&
+            (!entry.from || compareVersions(version, entry.from) >= 0)
+        )
+        .map((entry) => ({
+            type: entry.type,
+            severity: entry.severity,
+            ids: entry.ids || [],
+            summary: entry.summary,
+        }));
+}
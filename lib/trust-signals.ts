@@ -0,0 +1,187 @@
+import { Page } from 'puppeteer';
+
+/**
+ * Detecção de sinais de confiança e prova social:
+ * widgets de avaliação, selo Reclame Aqui, selos de segurança, CNPJ e endereço no rodapé,
+ * política de trocas e estrelas de avaliação nos cards de produto.
+ */
+
+type TrustProviderKind = 'review' | 'reclameAqui' | 'security';
+
+export interface DetectedTrustProvider {
+    name: string;
+    evidence: string; // URL ou seletor que comprovou a presença
+}
+
+export interface TrustSignalsReport {
+    reviewWidgets: DetectedTrustProvider[];
+    reclameAqui: DetectedTrustProvider | null;
+    securitySeals: DetectedTrustProvider[];
+    footer: {
+        cnpj: string | null;
+        address: string | null;
+    };
+    policyPages: { label: string; url: string }[]; // Trocas e devoluções
+    productRatings: {
+        productCards: number;
+        cardsWithRating: number;
+    };
+    score: number; // 0-100
+}
+
+/**
+ * Regras de detecção dos provedores (URL de scripts/iframes/imagens/links e seletores CSS).
+ */
+const TRUST_PROVIDERS: { name: string; kind: TrustProviderKind; url?: RegExp; selector?: string }[] = [
+    { name: 'Trustvox', kind: 'review', url: /trustvox/i, selector: '[class*="trustvox" i], #_trustvox_widget' },
+    { name: 'Yotpo', kind: 'review', url: /yotpo\.com/i, selector: '.yotpo, [class*="yotpo-" i]' },
+    { name: 'Lojas Confiáveis', kind: 'review', url: /lojasconfiaveis|confiavel\.com/i, selector: '[class*="lojas-confiaveis" i]' },
+    { name: 'Google Customer Reviews', kind: 'review', url: /apis\.google\.com\/js\/platform\.js\?onload=renderBadge|google\.com\/shopping\/customerreviews|merchantwidget/i },
+    { name: 'Opiniões Verificadas', kind: 'review', url: /opinioes-verificadas|netreviews/i, selector: '[class*="netreviews" i]' },
+    { name: 'Judge.me', kind: 'review', url: /judge\.me/i, selector: '.jdgm-widget' },
+    { name: 'Konfidency', kind: 'review', url: /konfidency/i },
+    { name: 'Reclame Aqui', kind: 'reclameAqui', url: /reclameaqui|raverified|ra1000/i, selector: '#ra-verified-seal, [class*="reclame-aqui" i], [class*="reclameaqui" i]' },
+    { name: 'Google Safe Browsing', kind: 'security', url: /transparencyreport\.google\.com\/safe-browsing/i },
+    { name: 'Site Blindado', kind: 'security', url: /siteblindado/i },
+    { name: 'Sectigo', kind: 'security', url: /sectigo|comodo.*seal/i },
+    { name: 'DigiCert', kind: 'security', url: /digicert.*seal|seal\.digicert/i },
+    { name: 'Norton / McAfee Secure', kind: 'security', url: /norton.*seal|mcafeesecure|trustedsite/i },
+    { name: 'Ebit', kind: 'security', url: /ebit\.com\.br|selo.*ebit|ebit.*selo/i },
+];
+
+// Peso de cada grupo de sinais no score de confiança
+const TRUST_WEIGHTS = {
+    reviewWidget: 25,
+    reclameAqui: 15,
+    securitySeal: 10,
+    cnpj: 15,
+    address: 10,
+    policyPage: 15,
+    productRatings: 10,
+};
+
+/**
+ * Coleta os sinais de confiança da página.
+ */
+export async function extractTrustSignals(page: Page): Promise<TrustSignalsReport> {
+    const selectors = TRUST_PROVIDERS.map((provider) => provider.selector || '');
+
+    const collected = await page.evaluate((providerSelectors: string[]) => {
+        // URLs de recursos que costumam carregar widgets e selos
+        const urls = [
+            ...Array.from(document.querySelectorAll('script[src]')).map((el) => (el as HTMLScriptElement).src),
+            ...Array.from(document.querySelectorAll('iframe[src]')).map((el) => (el as HTMLIFrameElement).src),
+            ...Array.from(document.querySelectorAll('img')).map((el) => `${el.src} ${el.alt}`),
+            ...Array.from(document.querySelectorAll('a[href]')).map((el) => (el as HTMLAnchorElement).href),
+        ];
+
+        const selectorMatches = providerSelectors.map((selector) => {
+            if (!selector) return false;
+            try {
+                return !!document.querySelector(selector);
+            } catch {
+                return false;
+            }
+        });
+
+        // Rodapé: o último <footer> de nível mais alto; sem ele, o último elemento com "footer" na classe
+        // (não o primeiro: .card-footer e .modal-footer aparecem antes) e, por fim, o final do texto da página
+        const lastOutermost = (selector: string) => {
+            const outermost = Array.from(document.querySelectorAll(selector)).filter((el) => !el.parentElement?.closest(selector));
+            return (outermost[outermost.length - 1] as HTMLElement | undefined) || null;
+        };
+        const footer = lastOutermost('footer') || lastOutermost('[class*="footer" i]');
+        const bodyText = document.body.innerText || '';
+        const footerText = footer?.innerText || bodyText.slice(-3000);
+
+        // Links para política de trocas e devoluções
+        const policyLinks = Array.from(document.querySelectorAll('a[href]'))
+            .filter((el) => /troca|devolu|return|exchange|arrependimento/i.test(`${(el as HTMLAnchorElement).innerText} ${(el as HTMLAnchorElement).href}`))
+            .map((el) => ({ label: ((el as HTMLAnchorElement).innerText || '').trim(), url: (el as HTMLAnchorElement).href }));
+
+        // Estrelas de avaliação nos cards de produto
+        const cards = Array.from(document.querySelectorAll(
+            '[class*="product-item"], [class*="product-card"], [class*="shelf-item"], [class*="product-summary"], li.product, [data-product-id]'
+        ));
+        const cardsWithRating = cards.filter((card) =>
+            card.querySelector('[class*="star" i], [class*="rating" i], [class*="review" i], [class*="avalia" i], [itemprop="ratingValue"]')
+        ).length;
+
+        return {
+            urls,
+            selectorMatches,
+            footerText,
+            policyLinks,
+            productCards: cards.length,
+            cardsWithRating,
+        };
+    }, selectors);
+
+    const providers: (DetectedTrustProvider & { kind: TrustProviderKind })[] = [];
+    TRUST_PROVIDERS.forEach((provider, index) => {
+        const pattern = provider.url;
+        const matchedUrl = pattern ? collected.urls.find((url) => pattern.test(url)) : undefined;
+        if (matchedUrl) {
+            providers.push({ name: provider.name, kind: provider.kind, evidence: matchedUrl.trim().slice(0, 200) });
+        } else if (collected.selectorMatches[index]) {
+            providers.push({ name: provider.name, kind: provider.kind, evidence: provider.selector || '' });
+        }
+    });
+
+    const cnpjMatch = collected.footerText.match(/\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}/);
+    const addressMatch = collected.footerText.match(
+        /(Rua|R\.|Av\.|Avenida|Alameda|Al\.|Rodovia|Estrada|Praça|Travessa)\s[\s\S]{3,160}?\d{5}-?\d{3}/i
+    );
+
+    // Remove links duplicados de política
+    const policyPages = collected.policyLinks.filter(
+        (link, index, all) => all.findIndex((other) => other.url === link.url) === index
+    );
+
+    const reviewWidgets = providers.filter((p) => p.kind === 'review').map(({ name, evidence }) => ({ name, evidence }));
+    const reclameAqui = providers.find((p) => p.kind === 'reclameAqui');
+    const securitySeals = providers.filter((p) => p.kind === 'security').map(({ name, evidence }) => ({ name, evidence }));
+
+    const report: Omit<TrustSignalsReport, 'score'> = {
+        reviewWidgets,
+        reclameAqui: reclameAqui ? { name: reclameAqui.name, evidence: reclameAqui.evidence } : null,
+        securitySeals,
+        footer: {
+            cnpj: cnpjMatch ? cnpjMatch[0] : null,
+            address: addressMatch ? addressMatch[0].replace(/\s+/g, ' ').trim() : null,
+        },
+        policyPages: policyPages.slice(0, 5),
+        productRatings: {
+            productCards: collected.productCards,
+            cardsWithRating: collected.cardsWithRating,
+        },
+    };
+
+    return { ...report, score: calculateTrustScore(report) };
+}
+
+/**
+ * Calcula o score de confiança (0-100) somando os pesos dos sinais presentes.
+ * Páginas sem cards de produto não são penalizadas pela ausência de estrelas.
+ */
+function calculateTrustScore(report: Omit<TrustSignalsReport, 'score'>): number {
+    let score = 0;
+    let max = 0;
+
+    const add = (weight: number, present: boolean) => {
+        max += weight;
+        if (present) score += weight;
+    };
+
+    add(TRUST_WEIGHTS.reviewWidget, report.reviewWidgets.length > 0);
+    add(TRUST_WEIGHTS.reclameAqui, !!report.reclameAqui);
+    add(TRUST_WEIGHTS.securitySeal, report.securitySeals.length > 0);
+    add(TRUST_WEIGHTS.cnpj, !!report.footer.cnpj);
+    add(TRUST_WEIGHTS.address, !!report.footer.address);
+    add(TRUST_WEIGHTS.policyPage, report.policyPages.length > 0);
+    if (report.productRatings.productCards > 0) {
+        add(TRUST_WEIGHTS.productRatings, report.productRatings.cardsWithRating > 0);
+    }
+
+    return Math.round((score / max) * 100);
+}